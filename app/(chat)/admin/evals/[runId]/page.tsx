@@ -0,0 +1,102 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getEvalRunById } from "@/services/evals";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+const formatScore = (score: number) => `${Math.round(score * 100)}%`;
+
+function formatToolCalls(toolCalls: unknown) {
+  if (!Array.isArray(toolCalls) || toolCalls.length === 0) return "-";
+
+  return toolCalls
+    .map(({ toolName, args }) => `${toolName}(${JSON.stringify(args)})`)
+    .join("\n");
+}
+
+export default async function EvalRunPage({
+  params,
+}: {
+  params: { runId: string };
+}) {
+  const run = await getEvalRunById({ id: params.runId });
+
+  if (!run) notFound();
+
+  return (
+    <div className="flex flex-col gap-4 w-full h-full overflow-auto">
+      <div className="flex justify-between items-center">
+        <h1 className="font-bold">
+          Eval run {run.startedAt.toLocaleString()} · {run.status.toLowerCase()}
+        </h1>
+        <Link href="/admin/evals" className="text-xs text-muted-foreground">
+          Back to evals
+        </Link>
+      </div>
+      {run.error && <div className="text-xs text-red-500">{run.error}</div>}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Model</TableHead>
+            <TableHead>Question</TableHead>
+            <TableHead>Expected</TableHead>
+            <TableHead>Tool calls</TableHead>
+            <TableHead>Answer</TableHead>
+            <TableHead>Tool</TableHead>
+            <TableHead>Args</TableHead>
+            <TableHead>Numeric</TableHead>
+            <TableHead>Score</TableHead>
+            <TableHead>Duration</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {run.results.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={10} className="text-center">
+                No results yet.
+              </TableCell>
+            </TableRow>
+          )}
+          {run.results.map((result) => (
+            <TableRow key={result.id}>
+              <TableCell>
+                {result.model}
+                {result.resolvedModel &&
+                  result.resolvedModel !== result.model &&
+                  ` (${result.resolvedModel})`}
+              </TableCell>
+              <TableCell className="max-w-xs">{result.question}</TableCell>
+              <TableCell className="max-w-xs break-all font-mono">
+                {result.expectedTool}({JSON.stringify(result.expectedArgs)}) ={" "}
+                {result.expectedValue.toLocaleString()}
+              </TableCell>
+              <TableCell className="max-w-xs break-all font-mono whitespace-pre-wrap">
+                {formatToolCalls(result.toolCalls)}
+              </TableCell>
+              <TableCell className="max-w-sm whitespace-pre-wrap">
+                {result.error ? (
+                  <span className="text-red-500">{result.error}</span>
+                ) : (
+                  (result.answer ?? "-")
+                )}
+              </TableCell>
+              <TableCell>{formatScore(result.toolScore)}</TableCell>
+              <TableCell>{formatScore(result.argsScore)}</TableCell>
+              <TableCell>{formatScore(result.numericScore)}</TableCell>
+              <TableCell className="font-medium">
+                {formatScore(result.score)}
+              </TableCell>
+              <TableCell>{(result.durationMs / 1000).toFixed(1)}s</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
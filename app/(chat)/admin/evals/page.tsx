@@ -0,0 +1,104 @@
+import EvalRunButton from "@/components/custom/eval-run-button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { summarizeEvalResults } from "@/lib/eval-runner";
+import { getEvalRuns } from "@/services/evals";
+import Link from "next/link";
+
+const formatScore = (score: number) => `${Math.round(score * 100)}%`;
+
+export default async function EvalsPage() {
+  const runs = await getEvalRuns();
+
+  return (
+    <div className="flex flex-col gap-4 w-full h-full overflow-auto">
+      <div className="flex justify-between items-center">
+        <h1 className="font-bold">Evals</h1>
+        <div className="flex gap-4 items-center">
+          <EvalRunButton />
+          <Link href="/admin" className="text-xs text-muted-foreground">
+            Back to admin
+          </Link>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Golden sales questions asked to every model, scored on tool choice, tool
+        arguments and the figures in the answer. Also available as{" "}
+        <code>npm run eval</code>.
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Run</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Model</TableHead>
+            <TableHead>Questions</TableHead>
+            <TableHead>Tool</TableHead>
+            <TableHead>Args</TableHead>
+            <TableHead>Numeric</TableHead>
+            <TableHead>Score</TableHead>
+            <TableHead>Errors</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {runs.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={9} className="text-center">
+                No eval runs yet.
+              </TableCell>
+            </TableRow>
+          )}
+          {runs.map((run) => {
+            const summaries = summarizeEvalResults(run.results);
+
+            if (summaries.length === 0) {
+              return (
+                <TableRow key={run.id}>
+                  <TableCell className="whitespace-nowrap">
+                    <Link href={`/admin/evals/${run.id}`} className="underline">
+                      {run.startedAt.toLocaleString()}
+                    </Link>
+                  </TableCell>
+                  <TableCell title={run.error ?? undefined}>
+                    {run.status.toLowerCase()}
+                  </TableCell>
+                  <TableCell colSpan={7}>-</TableCell>
+                </TableRow>
+              );
+            }
+
+            return summaries.map((summary, index) => (
+              <TableRow key={`${run.id}-${summary.model}`}>
+                <TableCell className="whitespace-nowrap">
+                  {index === 0 && (
+                    <Link href={`/admin/evals/${run.id}`} className="underline">
+                      {run.startedAt.toLocaleString()}
+                    </Link>
+                  )}
+                </TableCell>
+                <TableCell title={run.error ?? undefined}>
+                  {index === 0 && run.status.toLowerCase()}
+                </TableCell>
+                <TableCell>{summary.model}</TableCell>
+                <TableCell>{summary.questions}</TableCell>
+                <TableCell>{formatScore(summary.toolScore)}</TableCell>
+                <TableCell>{formatScore(summary.argsScore)}</TableCell>
+                <TableCell>{formatScore(summary.numericScore)}</TableCell>
+                <TableCell className="font-medium">
+                  {formatScore(summary.score)}
+                </TableCell>
+                <TableCell>{summary.errors}</TableCell>
+              </TableRow>
+            ));
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
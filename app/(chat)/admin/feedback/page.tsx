@@ -0,0 +1,130 @@
+import { stripCitations } from "@/lib/citations";
+import { cn } from "@/lib/utils";
+import {
+  getDownvoteCountsByCategory,
+  getDownvotedAnswers,
+} from "@/services/feedback";
+import Link from "next/link";
+
+const UNCATEGORISED = "uncategorised";
+
+function formatArgs(args: unknown) {
+  if (args === null || args === undefined) return "-";
+  return typeof args === "string" ? args : JSON.stringify(args);
+}
+
+export default async function FeedbackPage({
+  searchParams,
+}: {
+  searchParams: { category?: string };
+}) {
+  const category = searchParams.category || undefined;
+
+  const [answers, categoryCounts] = await Promise.all([
+    getDownvotedAnswers({ queryCategory: category }),
+    getDownvoteCountsByCategory(),
+  ]);
+
+  return (
+    <div className="flex flex-col gap-4 w-full h-full overflow-auto">
+      <div className="flex justify-between items-center">
+        <h1 className="font-bold">Downvoted Answers</h1>
+        <Link href="/admin" className="text-xs text-muted-foreground">
+          Back to admin
+        </Link>
+      </div>
+      <nav className="flex flex-wrap gap-2 text-xs">
+        <Link
+          href="/admin/feedback"
+          className={cn(
+            "rounded-full border px-3 py-1",
+            !category && "bg-secondary"
+          )}
+        >
+          All ({categoryCounts.reduce((total, { count }) => total + count, 0)})
+        </Link>
+        {categoryCounts.map(({ queryCategory, count }) =>
+          queryCategory ? (
+            <Link
+              key={queryCategory}
+              href={`/admin/feedback?category=${queryCategory}`}
+              className={cn(
+                "rounded-full border px-3 py-1",
+                category === queryCategory && "bg-secondary"
+              )}
+            >
+              {queryCategory} ({count})
+            </Link>
+          ) : (
+            <span key={UNCATEGORISED} className="px-3 py-1">
+              {UNCATEGORISED} ({count})
+            </span>
+          )
+        )}
+      </nav>
+      {answers.length === 0 && (
+        <div className="text-xs text-center">No downvoted answers found.</div>
+      )}
+      {answers.map((answer) => (
+        <div
+          key={answer.messageId}
+          className="flex flex-col gap-2 rounded-md border p-4 text-xs"
+        >
+          <div className="flex flex-wrap justify-between gap-2 text-muted-foreground">
+            <span>
+              {answer.updatedAt.toLocaleString()} ·{" "}
+              {answer.queryCategory ?? UNCATEGORISED} · Model:{" "}
+              {answer.message.model ?? "-"}
+              {answer.message.isAutoRouted && " (picked by Auto)"}
+            </span>
+            <span className="flex gap-3">
+              <Link href={`/chat/${answer.chatId}`} className="underline">
+                {answer.chat.title}
+              </Link>
+              <Link
+                href={`/admin/tool-logs?chatId=${answer.chatId}`}
+                className="underline"
+              >
+                Tool logs
+              </Link>
+            </span>
+          </div>
+          {answer.reason && (
+            <div className="rounded-md bg-red-500/10 px-2 py-1">
+              Reason: {answer.reason}
+            </div>
+          )}
+          <div>
+            <span className="font-medium">Question: </span>
+            {answer.question ?? "-"}
+          </div>
+          <div className="whitespace-pre-wrap">
+            <span className="font-medium">Answer: </span>
+            {typeof answer.message.content === "string"
+              ? stripCitations(answer.message.content)
+              : "-"}
+          </div>
+          {answer.message.toolCallLogs.length > 0 && (
+            <div className="flex flex-col gap-1">
+              <span className="font-medium">Tool calls:</span>
+              {answer.message.toolCallLogs.map((log) => (
+                <div key={log.id} className="font-mono break-all">
+                  {log.toolName}({formatArgs(log.repairedArgs ?? log.args)})
+                  {log.errorClass && (
+                    <span
+                      className="text-red-500"
+                      title={log.errorMessage ?? undefined}
+                    >
+                      {" "}
+                      → {log.errorClass}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,5 +1,27 @@
 import CSVInput from "@/components/custom/csv-input";
+import Link from "next/link";
 
 export default function AdminPage() {
-  return <CSVInput />;
+  return (
+    <div className="flex flex-col gap-4">
+      <CSVInput />
+      <nav className="flex flex-col gap-1 text-sm">
+        <Link href="/admin/prompts" className="underline">
+          System prompts
+        </Link>
+        <Link href="/admin/tool-logs" className="underline">
+          Tool call logs
+        </Link>
+        <Link href="/admin/feedback" className="underline">
+          Downvoted answers
+        </Link>
+        <Link href="/admin/evals" className="underline">
+          Evals
+        </Link>
+        <Link href="/admin/traces" className="underline">
+          Traces
+        </Link>
+      </nav>
+    </div>
+  );
 }
@@ -0,0 +1,26 @@
+import PromptEditor from "@/components/custom/prompt-editor";
+import { fallbackPrompts, promptFamilies } from "@/lib/models";
+import { getPromptVersions } from "@/services/prompts";
+import Link from "next/link";
+
+export default async function PromptsPage() {
+  const families = await Promise.all(
+    promptFamilies.map(async (family) => ({
+      family,
+      versions: await getPromptVersions({ family }),
+      fallbackPrompt: fallbackPrompts[family],
+    }))
+  );
+
+  return (
+    <div className="flex flex-col gap-4 w-full h-full overflow-auto">
+      <div className="flex justify-between items-center">
+        <h1 className="font-bold">System Prompts</h1>
+        <Link href="/admin" className="text-xs text-muted-foreground">
+          Back to admin
+        </Link>
+      </div>
+      <PromptEditor families={families} />
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getLoggedToolNames, getToolCallLogs } from "@/services/tool-logs";
+import Link from "next/link";
+
+function formatArgs(args: unknown) {
+  if (args === null || args === undefined) return "-";
+  return typeof args === "string" ? args : JSON.stringify(args);
+}
+
+export default async function ToolLogsPage({
+  searchParams,
+}: {
+  searchParams: { chatId?: string; toolName?: string };
+}) {
+  const chatId = searchParams.chatId?.trim() || undefined;
+  const toolName = searchParams.toolName || undefined;
+
+  const [logs, toolNames] = await Promise.all([
+    getToolCallLogs({ chatId, toolName }),
+    getLoggedToolNames(),
+  ]);
+
+  return (
+    <div className="flex flex-col gap-4 w-full h-full overflow-auto">
+      <div className="flex justify-between items-center">
+        <h1 className="font-bold">Tool Call Logs</h1>
+        <Link href="/admin" className="text-xs text-muted-foreground">
+          Back to admin
+        </Link>
+      </div>
+      <form className="flex gap-2 items-center" method="GET">
+        <Input
+          name="chatId"
+          placeholder="Chat ID"
+          defaultValue={chatId}
+          className="max-w-xs text-xs md:text-xs"
+        />
+        <select
+          name="toolName"
+          defaultValue={toolName ?? ""}
+          className="h-9 rounded-md border border-input bg-transparent px-3 text-xs"
+        >
+          <option value="">All tools</option>
+          {toolNames.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <Button type="submit" size={"sm"}>
+          Filter
+        </Button>
+      </form>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Time</TableHead>
+            <TableHead>Chat</TableHead>
+            <TableHead>Tool</TableHead>
+            <TableHead>Args</TableHead>
+            <TableHead>Repaired Args</TableHead>
+            <TableHead>Duration</TableHead>
+            <TableHead>Error</TableHead>
+            <TableHead>Result Length</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {logs.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={8} className="text-center">
+                No tool calls found.
+              </TableCell>
+            </TableRow>
+          )}
+          {logs.map((log) => (
+            <TableRow key={log.id}>
+              <TableCell className="whitespace-nowrap">
+                {log.createdAt.toLocaleString()}
+              </TableCell>
+              <TableCell>
+                <Link
+                  href={`/admin/tool-logs?chatId=${log.chatId}`}
+                  className="underline"
+                >
+                  {log.chatId.slice(0, 8)}
+                </Link>
+              </TableCell>
+              <TableCell>{log.toolName}</TableCell>
+              <TableCell className="max-w-xs break-all font-mono">
+                {formatArgs(log.args)}
+              </TableCell>
+              <TableCell className="max-w-xs break-all font-mono">
+                {formatArgs(log.repairedArgs)}
+              </TableCell>
+              <TableCell>
+                {log.durationMs !== null ? `${log.durationMs}ms` : "-"}
+              </TableCell>
+              <TableCell title={log.errorMessage ?? undefined}>
+                {log.errorClass ?? "-"}
+              </TableCell>
+              <TableCell>{log.resultLength ?? "-"}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import {
+  buildWaterfall,
+  SPAN_CATEGORY_LABELS,
+  SpanCategory,
+  summarizeTimeByCategory,
+} from "@/lib/trace-waterfall";
+import { cn } from "@/lib/utils";
+import { getTraceSpans } from "@/services/traces";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+const categoryColors: Record<SpanCategory, string> = {
+  llm: "bg-blue-500",
+  tool: "bg-amber-500",
+  embedding: "bg-purple-500",
+  sql: "bg-green-500",
+  other: "bg-zinc-400",
+};
+
+const formatMs = (ms: number) =>
+  ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${Math.round(ms)}ms`;
+
+// The AI SDK names its spans generically, the function id and tool name
+// tell them apart.
+function getSpanLabel(name: string, attributes: unknown) {
+  const values =
+    attributes && typeof attributes === "object"
+      ? (attributes as Record<string, unknown>)
+      : {};
+  const detail =
+    values["ai.toolCall.name"] ??
+    values["ai.telemetry.functionId"] ??
+    values["db.statement"];
+
+  return detail ? `${name} · ${String(detail)}` : name;
+}
+
+export default async function TracePage({
+  params,
+}: {
+  params: { traceId: string };
+}) {
+  const spans = await getTraceSpans({ traceId: params.traceId });
+
+  if (spans.length === 0) notFound();
+
+  const rows = buildWaterfall(spans);
+  const root = rows[0].span;
+  const timeByCategory = summarizeTimeByCategory(spans);
+
+  return (
+    <div className="flex flex-col gap-4 w-full h-full overflow-auto">
+      <div className="flex justify-between items-center">
+        <h1 className="font-bold">
+          {root.name} {root.startTime.toLocaleString()} ·{" "}
+          {formatMs(root.durationMs)}
+        </h1>
+        <Link href="/admin/traces" className="text-xs text-muted-foreground">
+          Back to traces
+        </Link>
+      </div>
+      {root.chatId && (
+        <Link href={`/chat/${root.chatId}`} className="text-xs underline">
+          Open chat
+        </Link>
+      )}
+      <div className="flex flex-wrap gap-4 text-xs">
+        {(Object.keys(SPAN_CATEGORY_LABELS) as Array<SpanCategory>).map(
+          (category) => (
+            <div key={category} className="flex items-center gap-1">
+              <span
+                className={cn("size-2 rounded-full", categoryColors[category])}
+              />
+              {SPAN_CATEGORY_LABELS[category]}{" "}
+              {formatMs(timeByCategory[category])}
+            </div>
+          )
+        )}
+      </div>
+      <div className="flex flex-col gap-1 text-xs">
+        {rows.map(({ span, depth, category, offsetPercent, widthPercent }) => (
+          <div key={span.id} className="flex items-center gap-2">
+            <div
+              className="w-1/3 shrink-0 truncate font-mono"
+              style={{ paddingLeft: `${depth * 12}px` }}
+              title={getSpanLabel(span.name, span.attributes)}
+            >
+              {getSpanLabel(span.name, span.attributes)}
+            </div>
+            <div className="relative h-4 grow rounded bg-muted">
+              <div
+                className={cn(
+                  "absolute h-4 rounded",
+                  span.error ? "bg-red-500" : categoryColors[category]
+                )}
+                style={{
+                  left: `${offsetPercent}%`,
+                  width: `max(${widthPercent}%, 2px)`,
+                }}
+                title={span.error ?? undefined}
+              />
+            </div>
+            <div className="w-16 shrink-0 text-right text-muted-foreground">
+              {formatMs(span.durationMs)}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getChatRequestTraces } from "@/services/traces";
+import Link from "next/link";
+
+function getAttribute(attributes: unknown, key: string) {
+  if (!attributes || typeof attributes !== "object") return undefined;
+  const value = (attributes as Record<string, unknown>)[key];
+  return value === undefined ? undefined : String(value);
+}
+
+export default async function TracesPage({
+  searchParams,
+}: {
+  searchParams: { chatId?: string };
+}) {
+  const chatId = searchParams.chatId?.trim() || undefined;
+  const traces = await getChatRequestTraces({ chatId });
+
+  return (
+    <div className="flex flex-col gap-4 w-full h-full overflow-auto">
+      <div className="flex justify-between items-center">
+        <h1 className="font-bold">Traces</h1>
+        <Link href="/admin" className="text-xs text-muted-foreground">
+          Back to admin
+        </Link>
+      </div>
+      <form className="flex gap-2 items-center" method="GET">
+        <Input
+          name="chatId"
+          placeholder="Chat ID"
+          defaultValue={chatId}
+          className="max-w-xs text-xs md:text-xs"
+        />
+        <Button type="submit" size={"sm"}>
+          Filter
+        </Button>
+      </form>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Time</TableHead>
+            <TableHead>Chat</TableHead>
+            <TableHead>Model</TableHead>
+            <TableHead>Duration</TableHead>
+            <TableHead>Error</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {traces.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center">
+                No traces found.
+              </TableCell>
+            </TableRow>
+          )}
+          {traces.map((trace) => (
+            <TableRow key={trace.id}>
+              <TableCell className="whitespace-nowrap">
+                {trace.startTime.toLocaleString()}
+              </TableCell>
+              <TableCell>
+                {trace.chatId ? (
+                  <Link
+                    href={`/admin/traces?chatId=${trace.chatId}`}
+                    className="underline"
+                  >
+                    {trace.chatId.slice(0, 8)}
+                  </Link>
+                ) : (
+                  "-"
+                )}
+              </TableCell>
+              <TableCell>
+                {getAttribute(trace.attributes, "chat.model") ??
+                  getAttribute(trace.attributes, "chat.selected_model") ??
+                  "-"}
+              </TableCell>
+              <TableCell>{Math.round(trace.durationMs)}ms</TableCell>
+              <TableCell className="max-w-xs">{trace.error ?? "-"}</TableCell>
+              <TableCell>
+                <Link
+                  href={`/admin/traces/${trace.traceId}`}
+                  className="underline"
+                >
+                  Waterfall
+                </Link>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -1,6 +1,5 @@
 import {
-  createDataStreamResponse,
-  generateText,
+  createDataStream,
   InvalidToolArgumentsError,
   NoSuchToolError,
   smoothStream,
@@ -9,33 +8,59 @@ import {
   ToolExecutionError,
   UIMessage,
 } from "ai";
+
+import { AnswerVerification, verifyAnswer } from "@/lib/answer-verification";
+import {
+  createToolCallRepair,
+  getActiveTools,
+  getSystemPrompt,
+  resolveChatModel,
+} from "@/lib/chat-pipeline";
+import { withCitationIds } from "@/lib/citations";
+import { updateMessageFollowUpQuestions } from "@/lib/follow-ups";
+import { detectLocale } from "@/lib/language";
+import { myProvider } from "@/lib/models";
+import { acquireModelSlot, checkRateLimit } from "@/lib/request-queue";
 import {
-  ZodDiscriminatedUnion,
-  ZodEnum,
-  ZodNativeEnum,
-  ZodNumber,
-  ZodObject,
-  ZodString,
-  ZodType,
-} from "zod";
-
-import { myProvider, regularPrompt } from "@/lib/models";
+  createResumableStream,
+  toDataStreamResponse,
+} from "@/lib/stream-store";
+import { createToolCallLogger } from "@/lib/tool-call-logger";
+import { withToolLocale } from "@/lib/tool-locale";
+import { withToolProgress } from "@/lib/tool-progress";
+import { withRequestSpan } from "@/lib/tracing";
 import {
   generateUUID,
+  getAssistantMessageFromResponse,
   getMostRecentUserMessage,
-  sanitizeResponseMessages,
+  ResponseMessage,
 } from "@/lib/utils";
 
 import { deleteChatById, getChatById, saveChat } from "@/services/chat";
-import { generateTitleFromUserMessage, saveMessages } from "@/services/message";
+import {
+  generateFollowUpQuestions,
+  generateTitleFromUserMessage,
+  saveMessages,
+} from "@/services/message";
+import { getUserLocale } from "@/services/preferences";
 // import { retrieveRelevantSales } from "@/services/sales";
 import { toolsMapping } from "@/services/tools";
 import { auth } from "@clerk/nextjs/server";
-import { Sales } from "@prisma-db-1/client";
+import { Span } from "@opentelemetry/api";
+import { Sales } from "@prisma/client";
 
 export const maxDuration = 60;
 
+// Follow-ups keep the stream open, so they get a short budget of their own.
+const FOLLOW_UP_TIMEOUT_MS = 10 * 1000;
+
 export async function POST(request: Request) {
+  return withRequestSpan("chat.request", (span) =>
+    handleChatRequest(request, span)
+  );
+}
+
+async function handleChatRequest(request: Request, span: Span) {
   const {
     id,
     messages,
@@ -46,12 +71,29 @@ export async function POST(request: Request) {
     selectedChatModel: string;
   } = await request.json();
 
+  span.setAttributes({
+    "chat.id": id,
+    "chat.selected_model": selectedChatModel,
+  });
+
   const session = await auth();
 
   if (!session || !session.userId) {
     return new Response("Unauthorized", { status: 401 });
   }
 
+  const rateLimit = checkRateLimit({ userId: session.userId.trim() });
+
+  if (!rateLimit.isAllowed) {
+    return new Response(
+      `Too many requests, please try again in ${rateLimit.retryAfterSeconds}s`,
+      {
+        status: 429,
+        headers: { "Retry-After": String(rateLimit.retryAfterSeconds) },
+      }
+    );
+  }
+
   const userMessage = getMostRecentUserMessage(messages);
 
   if (!userMessage) {
@@ -63,6 +105,9 @@ export async function POST(request: Request) {
   if (!chat) {
     const title = await generateTitleFromUserMessage({ message: userMessage });
     await saveChat({ id, userId: session.userId.trim(), title });
+  } else if (chat.userId.trim() !== session.userId.trim()) {
+    // Shared chats are read-only for everyone but their owner.
+    return new Response("Unauthorized", { status: 401 });
   }
 
   // console.log(userMessage, messages);
@@ -73,7 +118,14 @@ export async function POST(request: Request) {
         id: userMessage.id,
         role: userMessage.role,
         content: userMessage.content,
-        parts: [],
+        parts: userMessage.parts as any,
+        isCancelled: false,
+        model: null,
+        isAutoRouted: false,
+        promptVersionId: null,
+        hasUnverifiedClaims: false,
+        unverifiedClaims: null,
+        followUpQuestions: [],
         createdAt: new Date(),
         updatedAt: new Date(),
         chatId: id,
@@ -81,13 +133,23 @@ export async function POST(request: Request) {
     ],
   });
 
-  // const queryType = await classifyUserQuery(userMessage.content);
+  const { chatModel, isAutoRouted } = await resolveChatModel({
+    selectedChatModel,
+    userQuery: userMessage.content,
+  });
+
+  // Replies follow the language of each message, so staff can switch
+  // mid-chat. Messages with nothing to go on use the user's preference.
+  const locale = detectLocale(userMessage.content) ?? (await getUserLocale());
+
+  span.setAttributes({
+    "chat.model": chatModel,
+    "chat.auto_routed": isAutoRouted,
+    "chat.locale": locale,
+  });
 
   let relevantSalesData = "";
-  if (
-    selectedChatModel === "deepseek-r1:70b" ||
-    selectedChatModel === "deepseek-r1:7b"
-  ) {
+  if (chatModel === "deepseek-r1:70b" || chatModel === "deepseek-r1:7b") {
     // relevantSalesData = await retrieveRelevantSales(userMessage.content);
     relevantSalesData = "";
   }
@@ -123,43 +185,15 @@ Ensure invoice numbers, customer names, and all details exactly match the provid
   }));
 
   const messagesWithContext: UIMessage[] =
-    selectedChatModel === "deepseek-r1:70b" ||
-    selectedChatModel === "deepseek-r1:7b"
+    chatModel === "deepseek-r1:70b" || chatModel === "deepseek-r1:7b"
       ? [contextMessage, ...sanitizeMessages]
       : sanitizeMessages;
 
-  const systemPrompt = (chatModel?: string) => {
-    if (chatModel === "deepseek-r1:70b" || chatModel === "deepseek-r1:7b") {
-      return `
-    You are a friendly assistant named IdealAgent! Keep your responses concise and helpful.
-
-    ### SALES DATA CONTEXT:
-    - You have access to a structured dataset containing sales transactions.
-    - The dataset includes details such as:
-      - **Invoice Number** - Unique identifier for each transaction.
-      - **Customer Name** - Name of the buyer.
-      - **Purchase Date** - The date the transaction occurred.
-      - **Address** - Customer's location details.
-      - **Item Description** - The product or service purchased.
-      - **Quantity** - Number of units bought.
-      - **Price per Unit** - The cost of a single unit.
-      - **Total Amount** - Total cost of the transaction.
-      - **Payment Method** - The method used for payment (e.g., Credit Card, Cash).
-      - **Additional Notes** - Any comments or remarks related to the sale.
-    - The dataset is a list of purchased items with their respective details such as invoice. So expect the invoice to have duplicates.
-    - The **Total Amount** can be 0 at some point, this indicate that the item was sold for free.
-    - Each row is unique by combination of Invoice and Item Description.
-
-    ### SALES DATA CONTENT:
-    ${relevantSalesData || "No sales data available"}
-
-    INSTRUCTIONS: For any sales query, ONLY use the above data. Do NOT hallucinate or generate mock data.
-    Ensure invoice numbers, customer names, and all details exactly match the provided sales data.
-    `;
-    } else {
-      return `${regularPrompt}`;
-    }
-  };
+  const { system, promptVersionId } = await getSystemPrompt({
+    chatModel,
+    salesData: relevantSalesData,
+    locale,
+  });
 
   // console.log(
   //   relevantSalesData,
@@ -169,134 +203,207 @@ Ensure invoice numbers, customer names, and all details exactly match the provid
   // );
 
   // console.log(messagesWithContext, "CHECK MESSAGE");
-  console.log(selectedChatModel, "CHAT MODEL");
+  console.log(chatModel, "CHAT MODEL");
+
+  const experimentalActiveTools = getActiveTools(chatModel);
+
+  const toolCallLogger = createToolCallLogger({ chatId: id });
+
+  // Aborted when the user presses Stop, not when the client disconnects, so a
+  // refreshed page can still resume the stream.
+  const abortController = new AbortController();
+
+  let currentMessageId = "";
+  let stepMessages: Array<ResponseMessage> = [];
+  let partialText = "";
+  let partialReasoning = "";
+  let isAssistantMessageSaved = false;
+
+  const saveAssistantMessage = async ({
+    messages,
+    reasoning,
+    isCancelled,
+    verification,
+  }: {
+    messages: Array<ResponseMessage>;
+    reasoning: string | undefined;
+    isCancelled: boolean;
+    verification?: AnswerVerification;
+  }): Promise<string | null> => {
+    if (isAssistantMessageSaved || !session.userId.trim()) return null;
+    isAssistantMessageSaved = true;
+
+    try {
+      const assistantMessage = getAssistantMessageFromResponse({
+        userMessage,
+        messages,
+        reasoning,
+      });
+
+      if (!assistantMessage) {
+        await toolCallLogger.flush({ messageId: null });
+        return null;
+      }
 
-  const experimentalActiveTools =
-    selectedChatModel === "deepseek-r1:70b" ||
-    selectedChatModel === "deepseek-r1:7b"
-      ? []
-      : Object.keys(toolsMapping);
+      await saveMessages({
+        messages: [
+          {
+            id: assistantMessage.id,
+            chatId: id,
+            role: assistantMessage.role,
+            content: assistantMessage.content,
+            parts: assistantMessage.parts as any,
+            isCancelled,
+            model: chatModel,
+            isAutoRouted,
+            promptVersionId,
+            hasUnverifiedClaims:
+              (verification?.unsupportedClaims.length ?? 0) > 0,
+            unverifiedClaims: verification?.unsupportedClaims ?? null,
+            followUpQuestions: [],
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          },
+        ],
+      });
+      await toolCallLogger.flush({ messageId: assistantMessage.id });
+      return assistantMessage.id;
+    } catch (error) {
+      console.error("Failed to save chat");
+      await toolCallLogger.flush({ messageId: null });
+      return null;
+    }
+  };
+
+  // Replaced once the request gets a slot on the model.
+  let releaseModelSlot = () => {};
+
+  abortController.signal.addEventListener(
+    "abort",
+    () => {
+      releaseModelSlot();
+      saveAssistantMessage({
+        messages:
+          partialText === ""
+            ? stepMessages
+            : [
+                ...stepMessages,
+                {
+                  id: currentMessageId,
+                  role: "assistant",
+                  content: [{ type: "text", text: partialText }],
+                },
+              ],
+        reasoning: partialReasoning,
+        isCancelled: true,
+      });
+    },
+    { once: true }
+  );
+
+  const stream = createDataStream({
+    execute: async (dataStream) => {
+      releaseModelSlot = await acquireModelSlot({
+        model: chatModel,
+        abortSignal: abortController.signal,
+        onPositionChange: (position) => {
+          dataStream.writeData({ type: "queue-position", position });
+        },
+      });
+
+      dataStream.writeMessageAnnotation({
+        type: "model",
+        modelId: chatModel,
+        isAutoRouted,
+      });
 
-  return createDataStreamResponse({
-    execute: (dataStream) => {
       const result = streamText({
-        model: myProvider.languageModel(selectedChatModel),
-        system: systemPrompt(selectedChatModel),
+        model: myProvider.languageModel(chatModel),
+        system,
         messages: messagesWithContext,
         maxSteps: 5,
+        abortSignal: abortController.signal,
         experimental_activeTools: experimentalActiveTools,
-        tools: toolsMapping,
-        experimental_repairToolCall: async ({
-          toolCall,
-          tools,
-          error,
-          messages,
-          system,
-          parameterSchema,
-        }) => {
-          if (NoSuchToolError.isInstance(error)) {
-            return null;
-          }
+        tools: toolCallLogger.wrapTools(
+          withCitationIds(
+            withToolProgress(
+              withToolLocale(toolsMapping, locale),
+              ({ toolCallId, step }) => {
+                dataStream.writeMessageAnnotation({
+                  type: "tool-progress",
+                  toolCallId,
+                  step,
+                });
+              }
+            )
+          )
+        ),
+        experimental_repairToolCall: createToolCallRepair({
+          abortSignal: abortController.signal,
+          toolCallLogger,
+        }),
+        experimental_transform: smoothStream({ chunking: "word" }),
+        experimental_generateMessageId: () => {
+          currentMessageId = generateUUID();
+          return currentMessageId;
+        },
+        onChunk: ({ chunk }) => {
+          if (chunk.type === "text-delta") partialText += chunk.textDelta;
+          if (chunk.type === "reasoning") partialReasoning += chunk.textDelta;
+        },
+        onStepFinish: ({ response }) => {
+          stepMessages = response.messages;
+          partialText = "";
+        },
+        onFinish: async ({ response, reasoning }) => {
+          releaseModelSlot();
 
-          const tool = tools[toolCall.toolName as keyof typeof tools];
-          const expectedArgs = getExampleArgs(tool.parameters);
-
-          console.log(tool.parameters, "PARAMETERS");
-          console.log(toolCall.args, "ORI ARG");
-          console.log(expectedArgs, "EXPECTEDD");
-          console.log(JSON.stringify(parameterSchema(toolCall)), "SCHEMA ARG2");
-
-          const { text: repairedArgs } = await generateText({
-            model: myProvider.languageModel("small-model"),
-            // schema: tool.parameters,
-            system: `\n
-            - you will fix the arguments format
-            - you will respond only with the corrected argument
-            - do not include explanation
-            - do not include json word`,
-            prompt: [
-              `The model tried to call the tool "${toolCall.toolName}"` +
-                ` with the following initial arguments:`,
-              JSON.stringify(toolCall.args),
-              `The tool accepts the following schema example:`,
-              JSON.stringify(expectedArgs),
-              `Please fix the arguments. Include the initial argument "value" value, do not include the "type" or "value" keys.`,
-            ].join("\n"),
+          const verification = verifyAnswer({
+            messages: response.messages,
+            history: messages,
           });
 
-          const flattenToolArgs = (obj: any): any => {
-            if (typeof obj !== "object" || obj === null) return obj;
-            if ("value" in obj && Object.keys(obj).length === 1)
-              return obj.value;
-            if (Array.isArray(obj)) return obj.map(flattenToolArgs);
-            const newObj: Record<string, any> = {};
-            for (const key in obj) {
-              newObj[key] = flattenToolArgs(obj[key]);
-            }
-            return newObj;
-          };
+          if (verification.unsupportedClaims.length > 0) {
+            dataStream.writeMessageAnnotation({
+              type: "verification",
+              unsupportedClaims: verification.unsupportedClaims,
+            });
+          }
 
-          const cleanedRepairedArgs = flattenToolArgs(repairedArgs);
-          console.log(cleanedRepairedArgs, "CLEANED REPAIRED RESULT");
-          console.log(
-            JSON.stringify(cleanedRepairedArgs),
-            "CLEANED REPAIRED RESULT"
-          );
+          // Saved before the follow-ups, so pressing Stop while they are
+          // generated cannot overwrite the finished answer.
+          const assistantMessageId = await saveAssistantMessage({
+            messages: response.messages,
+            reasoning,
+            isCancelled: false,
+            verification,
+          });
 
-          return { ...toolCall, args: cleanedRepairedArgs };
-        },
-        experimental_transform: smoothStream({ chunking: "word" }),
-        experimental_generateMessageId: generateUUID,
-        onFinish: async ({ response, reasoning }) => {
-          if (session.userId.trim()) {
-            try {
-              console.log(
-                response,
-                response.messages[0].content,
-                response.messages[1],
-                response.messages[2],
-                "CHECK ALLL"
-              );
-              const sanitizedResponseMessages = sanitizeResponseMessages({
-                messages: response.messages,
-                reasoning,
+          if (!assistantMessageId) return;
+
+          try {
+            const followUpQuestions = await generateFollowUpQuestions({
+              userQuery: userMessage.content,
+              messages: response.messages,
+              locale,
+              abortSignal: AbortSignal.any([
+                abortController.signal,
+                AbortSignal.timeout(FOLLOW_UP_TIMEOUT_MS),
+              ]),
+            });
+
+            if (followUpQuestions.length > 0) {
+              dataStream.writeMessageAnnotation({
+                type: "follow-ups",
+                questions: followUpQuestions,
               });
-
-              await saveMessages({
-                messages: sanitizedResponseMessages.map((message) => {
-                  let extractedReasoning = "";
-
-                  // console.log(message.content, "CHECK SANTI");
-
-                  if (Array.isArray(message.content)) {
-                    const reasoningPart = message.content.find(isReasoningPart);
-                    if (reasoningPart) {
-                      extractedReasoning = reasoningPart.reasoning;
-                    }
-                  }
-
-                  return {
-                    id: message.id,
-                    chatId: id,
-                    role: message.role,
-                    content: message.content as any,
-                    parts:
-                      extractedReasoning === ""
-                        ? []
-                        : [
-                            {
-                              type: "reasoning",
-                              reasoning: extractedReasoning,
-                            },
-                          ],
-                    createdAt: new Date(),
-                    updatedAt: new Date(),
-                  };
-                }),
+              await updateMessageFollowUpQuestions({
+                id: assistantMessageId,
+                followUpQuestions,
               });
-            } catch (error) {
-              console.error("Failed to save chat");
             }
+          } catch (error) {
+            console.error("Failed to generate follow-up questions", error);
           }
         },
         experimental_telemetry: {
@@ -311,6 +418,8 @@ Ensure invoice numbers, customer names, and all details exactly match the provid
     },
     onError: (error) => {
       console.error(error);
+      releaseModelSlot();
+      toolCallLogger.flush({ messageId: null });
       if (NoSuchToolError.isInstance(error)) {
         // handle the no such tool error
         return `No such tool exist!`;
@@ -327,6 +436,10 @@ Ensure invoice numbers, customer names, and all details exactly match the provid
       }
     },
   });
+
+  return toDataStreamResponse(
+    createResumableStream({ chatId: id, stream, abortController })
+  );
 }
 
 export async function DELETE(request: Request) {
@@ -368,47 +481,3 @@ function formatSalesData(sales: Sales[]) {
     )
     .join("\n");
 }
-
-function isReasoningPart(
-  part: any
-): part is { type: "reasoning"; reasoning: string } {
-  return part.type === "reasoning" && typeof part.reasoning === "string";
-}
-
-function getExampleArgs<T extends ZodType<any, any, any>>(
-  schema: T
-): Record<string, any> | any {
-  if (schema instanceof ZodObject) {
-    const example: Record<string, any> = {};
-    const shape = schema.shape;
-    for (const key in shape) {
-      const fieldSchema = shape[key];
-      if (fieldSchema instanceof ZodEnum) {
-        // For ZodEnum, return all options for 'sortBy', otherwise the first option.
-        example[key] = fieldSchema._def.values;
-      } else if (fieldSchema instanceof ZodNativeEnum) {
-        example[key] = Object.values(fieldSchema.enum);
-      } else if (
-        fieldSchema instanceof ZodObject ||
-        fieldSchema instanceof ZodDiscriminatedUnion
-      ) {
-        example[key] = getExampleArgs(fieldSchema);
-      } else if (fieldSchema instanceof ZodString) {
-        example[key] = "example";
-      } else if (fieldSchema instanceof ZodNumber) {
-        example[key] = 0;
-      } else {
-        example[key] = null;
-      }
-    }
-    return example;
-  } else if (schema instanceof ZodDiscriminatedUnion) {
-    const [firstOption] = schema.options;
-    return getExampleArgs(firstOption);
-  } else if (schema instanceof ZodEnum) {
-    return schema._def.values;
-  } else if (schema instanceof ZodNativeEnum) {
-    return Object.values(schema.enum);
-  }
-  throw new Error("Unsupported schema type");
-}
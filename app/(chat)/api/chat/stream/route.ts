@@ -0,0 +1,67 @@
+import {
+  cancelStream,
+  resumeStream,
+  toDataStreamResponse,
+} from "@/lib/stream-store";
+import { getChatById } from "@/services/chat";
+import { auth } from "@clerk/nextjs/server";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const chatId = searchParams.get("chatId");
+
+  if (!chatId) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  const session = await auth();
+
+  if (!session || !session.userId) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const chat = await getChatById({ id: chatId });
+
+  if (!chat) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  if (chat.userId.trim() !== session.userId.trim()) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const stream = resumeStream({ chatId });
+
+  if (!stream) {
+    return new Response(null, { status: 204 });
+  }
+
+  return toDataStreamResponse(stream);
+}
+
+export async function DELETE(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const chatId = searchParams.get("chatId");
+
+  if (!chatId) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  const session = await auth();
+
+  if (!session || !session.userId) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const chat = await getChatById({ id: chatId });
+
+  if (chat?.userId.trim() !== session.userId.trim()) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  if (!cancelStream({ chatId })) {
+    return new Response("No active stream", { status: 404 });
+  }
+
+  return new Response("Stream cancelled", { status: 200 });
+}
@@ -0,0 +1,46 @@
+import { getChatById, updateChatVisibilityById } from "@/services/chat";
+import { auth } from "@clerk/nextjs/server";
+import { Visibility } from "@prisma/client";
+
+export async function PATCH(request: Request) {
+  const {
+    chatId,
+    visibility,
+  }: {
+    chatId: string;
+    visibility: Visibility;
+  } = await request.json();
+
+  if (!chatId || !Object.values(Visibility).includes(visibility)) {
+    return new Response("Invalid request", { status: 400 });
+  }
+
+  const session = await auth();
+
+  if (!session || !session.userId) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const chat = await getChatById({ id: chatId });
+
+    if (!chat) {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    if (chat.userId.trim() !== session.userId.trim()) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    const updatedChat = await updateChatVisibilityById({
+      id: chatId,
+      visibility,
+    });
+
+    return Response.json(updatedChat);
+  } catch (error) {
+    return new Response("An error occurred while processing your request", {
+      status: 500,
+    });
+  }
+}
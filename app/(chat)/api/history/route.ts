@@ -1,15 +1,39 @@
-import { getChatsByUserId } from "@/services/chat";
+import { ChatHistorySection, getChatsByUserId } from "@/services/chat";
 import { auth } from "@clerk/nextjs/server";
 
-export async function GET() {
+const sections: Array<ChatHistorySection> = [
+  "pinned",
+  "folder",
+  "reports",
+  "chats",
+];
+
+export async function GET(request: Request) {
   const session = await auth();
 
   if (!session || !session.userId) {
     return Response.json("Unauthorized!", { status: 401 });
   }
 
-  // biome-ignore lint: Forbidden non-null assertion.
-  const chats = await getChatsByUserId({ id: session.userId! });
+  const { searchParams } = new URL(request.url);
+  const section = (searchParams.get("section") ??
+    "chats") as ChatHistorySection;
+  const folderId = searchParams.get("folderId") ?? undefined;
+  const cursor = searchParams.get("cursor") ?? undefined;
+
+  if (!sections.includes(section)) {
+    return Response.json("Unknown section", { status: 400 });
+  }
+
+  if (section === "folder" && !folderId) {
+    return Response.json("folderId is required", { status: 400 });
+  }
+
+  const page = await getChatsByUserId({
+    section,
+    folderId,
+    cursor,
+  });
 
-  return Response.json(chats);
+  return Response.json(page);
 }
@@ -0,0 +1,30 @@
+import { searchChatsByUserId } from "@/services/chat";
+import { auth } from "@clerk/nextjs/server";
+
+const MAX_QUERY_LENGTH = 200;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get("q")?.trim();
+
+  if (!query) {
+    return new Response("q is required", { status: 400 });
+  }
+
+  if (query.length > MAX_QUERY_LENGTH) {
+    return new Response(
+      `q must be at most ${MAX_QUERY_LENGTH} characters long`,
+      { status: 400 }
+    );
+  }
+
+  const session = await auth();
+
+  if (!session || !session.userId) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const results = await searchChatsByUserId({ query });
+
+  return Response.json(results);
+}
@@ -0,0 +1,294 @@
+import { CoreMessage, FinishReason, generateText, streamText } from "ai";
+
+import { authenticateApiKey } from "@/lib/api-keys";
+import {
+  createToolCallRepair,
+  getActiveTools,
+  getSystemPrompt,
+  resolveChatModel,
+} from "@/lib/chat-pipeline";
+import { detectLocale } from "@/lib/language";
+import { DEFAULT_LOCALE } from "@/lib/locales";
+import { chatModels, myProvider } from "@/lib/models";
+import { acquireModelSlot, checkRateLimit } from "@/lib/request-queue";
+import { withToolLocale } from "@/lib/tool-locale";
+import { generateUUID } from "@/lib/utils";
+import { toolsMapping } from "@/services/tools";
+import { z } from "zod";
+
+export const maxDuration = 60;
+
+const openAIContentSchema = z
+  .union([
+    z.string(),
+    z.array(z.object({ type: z.string(), text: z.string().optional() })),
+  ])
+  .nullish();
+
+const openAIMessageSchema = z.object({
+  role: z.string(),
+  content: openAIContentSchema,
+});
+
+const chatCompletionRequestSchema = z.object({
+  model: z.string().optional(),
+  messages: z.array(openAIMessageSchema).optional(),
+  stream: z.boolean().optional(),
+  temperature: z.number().optional(),
+  max_tokens: z.number().int().positive().optional(),
+});
+
+type OpenAIContent = z.infer<typeof openAIContentSchema>;
+type OpenAIMessage = z.infer<typeof openAIMessageSchema>;
+
+function errorResponse(
+  status: number,
+  message: string,
+  type: string,
+  headers?: HeadersInit
+) {
+  return Response.json(
+    { error: { message, type, code: null } },
+    { status, headers }
+  );
+}
+
+function getTextContent(content: OpenAIContent): string {
+  if (typeof content === "string") return content;
+  return (content ?? [])
+    .map((part) => (part.type === "text" ? (part.text ?? "") : ""))
+    .join("");
+}
+
+function toCoreMessages(messages: Array<OpenAIMessage>): Array<CoreMessage> {
+  return messages.flatMap((message): Array<CoreMessage> => {
+    const content = getTextContent(message.content);
+
+    switch (message.role) {
+      case "system":
+      case "developer":
+        return [{ role: "system", content }];
+      case "user":
+        return [{ role: "user", content }];
+      case "assistant":
+        return [{ role: "assistant", content }];
+      default:
+        return [];
+    }
+  });
+}
+
+function toOpenAIFinishReason(finishReason: FinishReason) {
+  switch (finishReason) {
+    case "length":
+      return "length";
+    case "content-filter":
+      return "content_filter";
+    default:
+      return "stop";
+  }
+}
+
+/**
+ * OpenAI-compatible chat completions for other internal apps. Runs the same
+ * model, system prompt and tools as the chat UI, authenticated with a
+ * personal API key instead of a browser session.
+ */
+export async function POST(request: Request) {
+  const apiKey = await authenticateApiKey(request);
+
+  if (!apiKey) {
+    return errorResponse(401, "Invalid API key", "invalid_request_error");
+  }
+
+  const rateLimit = checkRateLimit({ userId: apiKey.userId });
+
+  if (!rateLimit.isAllowed) {
+    return errorResponse(
+      429,
+      `Too many requests, please try again in ${rateLimit.retryAfterSeconds}s`,
+      "rate_limit_error",
+      { "Retry-After": String(rateLimit.retryAfterSeconds) }
+    );
+  }
+
+  let json: unknown;
+
+  try {
+    json = await request.json();
+  } catch {
+    return errorResponse(400, "Invalid JSON body", "invalid_request_error");
+  }
+
+  const parsedBody = chatCompletionRequestSchema.safeParse(json);
+
+  if (!parsedBody.success) {
+    return errorResponse(
+      400,
+      `Invalid request body: ${parsedBody.error.issues
+        .map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`)
+        .join("; ")}`,
+      "invalid_request_error"
+    );
+  }
+
+  const body = parsedBody.data;
+
+  const { model, stream = false, temperature, max_tokens } = body;
+
+  if (!model || !chatModels.some((chatModel) => chatModel.id === model)) {
+    return errorResponse(
+      400,
+      `Unknown model. Use one of: ${chatModels.map((m) => m.id).join(", ")}`,
+      "invalid_request_error"
+    );
+  }
+
+  const messages = toCoreMessages(body.messages ?? []);
+  const userMessage = messages.findLast((message) => message.role === "user");
+
+  if (!userMessage) {
+    return errorResponse(400, "No user message found", "invalid_request_error");
+  }
+
+  const { chatModel } = await resolveChatModel({
+    selectedChatModel: model,
+    userQuery: userMessage.content as string,
+  });
+  // API clients have no language preference, so unclear messages get English.
+  const locale = detectLocale(userMessage.content as string) ?? DEFAULT_LOCALE;
+  const { system } = await getSystemPrompt({
+    chatModel,
+    withCitations: false,
+    locale,
+  });
+
+  let releaseModelSlot: () => void;
+
+  try {
+    releaseModelSlot = await acquireModelSlot({
+      model: chatModel,
+      abortSignal: request.signal,
+      onPositionChange: () => {},
+    });
+  } catch {
+    return errorResponse(499, "Request cancelled", "invalid_request_error");
+  }
+
+  const options = {
+    model: myProvider.languageModel(chatModel),
+    system,
+    messages,
+    maxSteps: 5,
+    temperature,
+    maxTokens: max_tokens,
+    abortSignal: request.signal,
+    experimental_activeTools: getActiveTools(chatModel),
+    tools: withToolLocale(toolsMapping, locale),
+    experimental_repairToolCall: createToolCallRepair({
+      abortSignal: request.signal,
+    }),
+  };
+
+  const id = `chatcmpl-${generateUUID()}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  if (!stream) {
+    try {
+      const result = await generateText(options);
+
+      return Response.json({
+        id,
+        object: "chat.completion",
+        created,
+        model,
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content: result.text },
+            finish_reason: toOpenAIFinishReason(result.finishReason),
+          },
+        ],
+        usage: {
+          prompt_tokens: result.usage.promptTokens,
+          completion_tokens: result.usage.completionTokens,
+          total_tokens: result.usage.totalTokens,
+        },
+      });
+    } catch (error) {
+      console.error(error);
+      return errorResponse(500, "Oops, an error occured!", "server_error");
+    } finally {
+      releaseModelSlot();
+    }
+  }
+
+  const encoder = new TextEncoder();
+  const toChunk = (
+    delta: { role?: "assistant"; content?: string },
+    finishReason: string | null = null
+  ) =>
+    encoder.encode(
+      `data: ${JSON.stringify({
+        id,
+        object: "chat.completion.chunk",
+        created,
+        model,
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+      })}\n\n`
+    );
+
+  const result = streamText(options);
+  // Set when the client goes away, so nothing is written to a closed stream.
+  let isCancelled = false;
+
+  return new Response(
+    new ReadableStream({
+      async start(controller) {
+        const send = (chunk: Uint8Array) => {
+          if (!isCancelled) controller.enqueue(chunk);
+        };
+
+        send(toChunk({ role: "assistant", content: "" }));
+
+        try {
+          for await (const part of result.fullStream) {
+            if (part.type === "text-delta") {
+              send(toChunk({ content: part.textDelta }));
+            } else if (part.type === "finish") {
+              send(toChunk({}, toOpenAIFinishReason(part.finishReason)));
+            } else if (part.type === "error") {
+              throw part.error;
+            }
+          }
+        } catch (error) {
+          console.error(error);
+          send(
+            encoder.encode(
+              `data: ${JSON.stringify({
+                error: {
+                  message: "Oops, an error occured!",
+                  type: "server_error",
+                },
+              })}\n\n`
+            )
+          );
+        } finally {
+          releaseModelSlot();
+          send(encoder.encode("data: [DONE]\n\n"));
+          if (!isCancelled) controller.close();
+        }
+      },
+      cancel() {
+        isCancelled = true;
+      },
+    }),
+    {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    }
+  );
+}
@@ -0,0 +1,125 @@
+import { getChatById } from "@/services/chat";
+import {
+  classifyUserQuery,
+  getMessagesByChatId,
+  getVotesByChatId,
+  voteMessage,
+} from "@/services/message";
+import { auth } from "@clerk/nextjs/server";
+
+const MAX_REASON_LENGTH = 1000;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const chatId = searchParams.get("chatId");
+
+  if (!chatId) {
+    return new Response("chatId is required", { status: 400 });
+  }
+
+  const session = await auth();
+
+  if (!session || !session.userId) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const chat = await getChatById({ id: chatId });
+
+  if (!chat) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  if (chat.userId.trim() !== session.userId.trim()) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const votes = await getVotesByChatId({ id: chatId });
+
+  return Response.json(votes);
+}
+
+export async function PATCH(request: Request) {
+  const {
+    chatId,
+    messageId,
+    type,
+    reason,
+  }: {
+    chatId: string;
+    messageId: string;
+    type: "up" | "down";
+    reason?: string;
+  } = await request.json();
+
+  if (
+    !chatId ||
+    !messageId ||
+    (type !== "up" && type !== "down") ||
+    (reason !== undefined && typeof reason !== "string")
+  ) {
+    return new Response("Invalid request", { status: 400 });
+  }
+
+  const session = await auth();
+
+  if (!session || !session.userId) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const chat = await getChatById({ id: chatId });
+
+    if (!chat) {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    if (chat.userId.trim() !== session.userId.trim()) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    const messages = await getMessagesByChatId({ id: chatId });
+    const message = messages.find((m) => m.id === messageId);
+
+    if (!message || message.role !== "assistant") {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    // Downvotes are grouped by question type on the feedback dashboard, so
+    // classify the question the first time the answer is downvoted.
+    let queryCategory;
+
+    if (type === "down") {
+      const votes = await getVotesByChatId({ id: chatId });
+      const existingVote = votes.find((vote) => vote.messageId === messageId);
+      const question = messages.findLast(
+        (m) => m.role === "user" && m.createdAt <= message.createdAt
+      );
+
+      if (
+        !existingVote?.queryCategory &&
+        typeof question?.content === "string"
+      ) {
+        queryCategory = await classifyUserQuery(question.content).catch(
+          (error) => {
+            console.error("Failed to classify downvoted question", error);
+            return null;
+          }
+        );
+      }
+    }
+
+    const vote = await voteMessage({
+      chatId,
+      messageId,
+      type,
+      reason: reason?.slice(0, MAX_REASON_LENGTH),
+      queryCategory,
+    });
+
+    return Response.json(vote);
+  } catch (error) {
+    return new Response("An error occurred while processing your request", {
+      status: 500,
+    });
+  }
+}
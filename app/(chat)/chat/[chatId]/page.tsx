@@ -3,6 +3,7 @@ import { DEFAULT_CHAT_MODEL } from "@/lib/models";
 import { convertToUIMessages } from "@/lib/utils";
 import { getChatById } from "@/services/chat";
 import { getMessagesByChatId } from "@/services/message";
+import { getUserDisplayName } from "@/services/user";
 import { auth } from "@clerk/nextjs/server";
 import { cookies } from "next/headers";
 import { redirect } from "next/navigation";
@@ -39,6 +40,11 @@ export default async function ChatPage({
     id: chatId,
   });
 
+  const isReadonly = session.userId.trim() !== chat.userId.trim();
+  const ownerName = isReadonly
+    ? await getUserDisplayName({ userId: chat.userId })
+    : undefined;
+
   const cookieStore = await cookies();
   const chatModelFromCookie = cookieStore.get("chat-model");
 
@@ -47,7 +53,8 @@ export default async function ChatPage({
       <Chat
         id={chat.id}
         initialMessages={convertToUIMessages(messagesFromDb)}
-        isReadonly={session.userId.trim() !== chat.userId.trim()}
+        isReadonly={isReadonly}
+        ownerName={ownerName}
         selectedChatModel={DEFAULT_CHAT_MODEL}
       />
     );
@@ -57,7 +64,8 @@ export default async function ChatPage({
     <Chat
       id={chat.id}
       initialMessages={convertToUIMessages(messagesFromDb)}
-      isReadonly={session.userId.trim() !== chat.userId.trim()}
+      isReadonly={isReadonly}
+      ownerName={ownerName}
       selectedChatModel={chatModelFromCookie.value}
     />
   );
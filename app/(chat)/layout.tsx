@@ -1,6 +1,8 @@
 import Navbar from "@/components/custom/navbar";
 import Sidebar from "@/components/custom/sidebar";
 import { DEFAULT_CHAT_MODEL } from "@/lib/models";
+import { LocaleProvider } from "@/lib/providers/locale-provider";
+import { getUserLocale } from "@/services/preferences";
 import { auth } from "@clerk/nextjs/server";
 import { cookies } from "next/headers";
 import { notFound } from "next/navigation";
@@ -18,26 +20,31 @@ export default async function Layout({
 
   const cookieStore = await cookies();
   const chatModelFromCookie = cookieStore.get("chat-model");
+  const locale = await getUserLocale();
 
   if (!chatModelFromCookie) {
     return (
-      <div className="flex w-full h-full overflow-hidden">
-        <Sidebar userId={session.userId!} />
-        <div className="flex flex-col w-full h-full">
-          <Navbar selectedChatModel={DEFAULT_CHAT_MODEL} />
-          <div className="p-4 w-full h-full">{children}</div>
+      <LocaleProvider locale={locale}>
+        <div className="flex w-full h-full overflow-hidden">
+          <Sidebar userId={session.userId!} />
+          <div className="flex flex-col w-full h-full">
+            <Navbar selectedChatModel={DEFAULT_CHAT_MODEL} />
+            <div className="p-4 w-full h-full">{children}</div>
+          </div>
         </div>
-      </div>
+      </LocaleProvider>
     );
   }
 
   return (
-    <div className="flex w-full h-full overflow-hidden">
-      <Sidebar userId={session.userId!} />
-      <div className="flex flex-col w-full h-full">
-        <Navbar selectedChatModel={chatModelFromCookie.value} />
-        <div className="p-4 w-full h-full">{children}</div>
+    <LocaleProvider locale={locale}>
+      <div className="flex w-full h-full overflow-hidden">
+        <Sidebar userId={session.userId!} />
+        <div className="flex flex-col w-full h-full">
+          <Navbar selectedChatModel={chatModelFromCookie.value} />
+          <div className="p-4 w-full h-full">{children}</div>
+        </div>
       </div>
-    </div>
+    </LocaleProvider>
   );
 }
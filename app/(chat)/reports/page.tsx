@@ -0,0 +1,33 @@
+import ReportManager from "@/components/custom/report-manager";
+import { createTranslator } from "@/lib/locales";
+import { chatModels } from "@/lib/models";
+import { getUserLocale } from "@/services/preferences";
+import { getScheduledReports } from "@/services/reports";
+
+export default async function ReportsPage() {
+  const [reports, locale] = await Promise.all([
+    getScheduledReports(),
+    getUserLocale(),
+  ]);
+  const t = createTranslator(locale);
+  const [descriptionStart, descriptionEnd] = t("reports.description").split(
+    "{example}"
+  );
+
+  return (
+    <div className="flex flex-col gap-4 w-full h-full overflow-auto">
+      <div className="flex flex-col gap-1">
+        <h1 className="font-bold">{t("reports.title")}</h1>
+        <p className="text-xs text-muted-foreground">
+          {descriptionStart}
+          <code>0 8 * * 1</code>
+          {descriptionEnd}
+        </p>
+      </div>
+      <ReportManager
+        reports={reports}
+        models={chatModels.map(({ id, name }) => ({ id, name }))}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import ApiKeyManager from "@/components/custom/api-key-manager";
+import { createTranslator } from "@/lib/locales";
+import { getApiKeys } from "@/services/api-keys";
+import { getUserLocale } from "@/services/preferences";
+
+export default async function ApiKeysPage() {
+  const [apiKeys, locale] = await Promise.all([getApiKeys(), getUserLocale()]);
+  const t = createTranslator(locale);
+  const [descriptionStart, descriptionEnd] = t("apiKeys.description").split(
+    "{endpoint}"
+  );
+
+  return (
+    <div className="flex flex-col gap-4 w-full h-full overflow-auto">
+      <div className="flex flex-col gap-1">
+        <h1 className="font-bold">{t("apiKeys.title")}</h1>
+        <p className="text-xs text-muted-foreground">
+          {descriptionStart}
+          <code>/api/v1/chat/completions</code>
+          {descriptionEnd}
+        </p>
+      </div>
+      <ApiKeyManager apiKeys={apiKeys} />
+    </div>
+  );
+}
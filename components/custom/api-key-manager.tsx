@@ -0,0 +1,133 @@
+"use client";
+
+import { useTranslation } from "@/lib/providers/locale-provider";
+import {
+  createApiKey,
+  revokeApiKey,
+  type ApiKeySummary,
+} from "@/services/api-keys";
+import { CopyIcon } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+
+export default function ApiKeyManager({
+  apiKeys,
+}: {
+  apiKeys: Array<ApiKeySummary>;
+}) {
+  const router = useRouter();
+  const t = useTranslation();
+  const [name, setName] = useState<string>("");
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+
+    try {
+      const { key } = await createApiKey({ name });
+      setNewKey(key);
+      setName("");
+      router.refresh();
+    } catch (error) {
+      toast.error(t("apiKeys.createFailed"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKeySummary) => {
+    try {
+      await revokeApiKey({ id: apiKey.id });
+      toast.success(t("apiKeys.revoked", { name: apiKey.name }));
+      router.refresh();
+    } catch (error) {
+      toast.error(t("apiKeys.revokeFailed"));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex gap-2">
+        <Input
+          placeholder={t("apiKeys.namePlaceholder")}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <Button onClick={handleCreate} disabled={isSaving}>
+          {t("apiKeys.create")}
+        </Button>
+      </div>
+      {newKey && (
+        <div className="flex flex-col gap-2 rounded-md border p-2 text-sm">
+          <span>{t("apiKeys.copyNow")}</span>
+          <div className="flex items-center gap-2">
+            <code className="break-all rounded-md bg-muted px-2 py-1">
+              {newKey}
+            </code>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => {
+                navigator.clipboard.writeText(newKey);
+                toast.success(t("apiKeys.copied"));
+              }}
+            >
+              <CopyIcon />
+            </Button>
+          </div>
+        </div>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{t("apiKeys.columnName")}</TableHead>
+            <TableHead>{t("apiKeys.columnKey")}</TableHead>
+            <TableHead>{t("apiKeys.columnCreated")}</TableHead>
+            <TableHead>{t("apiKeys.columnLastUsed")}</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {apiKeys.map((apiKey) => (
+            <TableRow key={apiKey.id}>
+              <TableCell>{apiKey.name}</TableCell>
+              <TableCell className="font-mono">{apiKey.keyPrefix}…</TableCell>
+              <TableCell>{apiKey.createdAt.toLocaleString()}</TableCell>
+              <TableCell>
+                {apiKey.lastUsedAt ? apiKey.lastUsedAt.toLocaleString() : "-"}
+              </TableCell>
+              <TableCell>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleRevoke(apiKey)}
+                >
+                  {t("apiKeys.revoke")}
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+          {apiKeys.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={5} className="text-muted-foreground">
+                {t("apiKeys.empty")}
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
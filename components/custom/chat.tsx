@@ -1,13 +1,22 @@
 "use client";
 
 import { useChat } from "@ai-sdk/react";
-import type { Attachment, Message } from "ai";
-import { useState } from "react";
-import { useSWRConfig } from "swr";
+import { Vote } from "@prisma/client";
+import type { Attachment, JSONValue, Message } from "ai";
+import { useCallback, useEffect, useRef, useState } from "react";
+import useSWR from "swr";
 
-import { cn, generateUUID } from "@/lib/utils";
+import {
+  cn,
+  fetcher,
+  generateUUID,
+  getLatestStreamData,
+  readDataStreamMessage,
+} from "@/lib/utils";
 
 import { useStartTime } from "@/lib/hooks";
+import { useGeneralStore } from "@/lib/zustand";
+import { useTranslation } from "@/lib/providers/locale-provider";
 import { toast } from "sonner";
 import { Messages } from "./messages";
 import { MultimodalInput } from "./multimodal-input";
@@ -16,14 +25,17 @@ export default function Chat({
   id,
   initialMessages,
   isReadonly,
+  ownerName,
   selectedChatModel,
 }: {
   id: string;
   initialMessages: Array<Message>;
   isReadonly: boolean;
+  ownerName?: string;
   selectedChatModel: string;
 }) {
-  const { mutate } = useSWRConfig();
+  const { refreshHistory } = useGeneralStore();
+  const t = useTranslation();
   const [_, setStartTime] = useStartTime();
 
   const {
@@ -36,6 +48,7 @@ export default function Chat({
     isLoading,
     stop,
     reload,
+    data,
   } = useChat({
     id,
     body: { id, selectedChatModel: selectedChatModel },
@@ -44,28 +57,112 @@ export default function Chat({
     sendExtraMessageFields: true,
     generateId: generateUUID,
     onFinish: () => {
-      mutate("/api/history");
+      refreshHistory();
     },
     onError: (error) => {
       setStartTime(null);
-      toast.error(`An error occured, please try again! ${error}`);
+      toast.error(t("chat.error", { error: String(error) }));
       console.log(`An error occured, please try again! ${error}`);
     },
   });
 
+  const { data: votes } = useSWR<Array<Vote>>(
+    isReadonly ? null : `/api/vote?chatId=${id}`,
+    fetcher
+  );
+
   const [attachments, setAttachments] = useState<Array<Attachment>>([]);
 
+  // Picks up an answer that is still generating on the server, e.g. after a
+  // refresh or a dropped connection.
+  const [isResuming, setIsResuming] = useState<boolean>(false);
+  const [resumeData, setResumeData] = useState<Array<JSONValue>>();
+  const resumeAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (isReadonly || initialMessages.at(-1)?.role !== "user") return;
+
+    const abortController = new AbortController();
+    resumeAbortRef.current = abortController;
+    setIsResuming(true);
+
+    fetch(`/api/chat/stream?chatId=${id}`, { signal: abortController.signal })
+      .then(async (response) => {
+        // 204 when the chat has no answer generating.
+        if (!response.ok || !response.body) return;
+
+        await readDataStreamMessage({
+          stream: response.body,
+          onUpdate: ({ message, data }) => {
+            setMessages([...initialMessages, message]);
+            setResumeData(data);
+          },
+        });
+        refreshHistory();
+      })
+      .catch(() => {
+        // Most chats have no stream to resume, or the effect was cleaned up.
+      })
+      .finally(() => {
+        setIsResuming(false);
+      });
+
+    return () => abortController.abort();
+    // Only resume once when the chat is opened.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const stopGenerating = useCallback(() => {
+    resumeAbortRef.current?.abort();
+    stop();
+
+    // Stopping the client only closes the reader, the server keeps generating
+    // until it is told to cancel.
+    fetch(`/api/chat/stream?chatId=${id}`, { method: "DELETE" }).catch(() => {
+      // The stream has ended anyway once the connection is gone.
+    });
+
+    setMessages((messages) => {
+      const lastMessage = messages.at(-1);
+      if (lastMessage?.role !== "assistant") return messages;
+
+      return [
+        ...messages.slice(0, -1),
+        {
+          ...lastMessage,
+          annotations: [
+            ...(lastMessage.annotations ?? []),
+            { type: "cancelled" },
+          ],
+        },
+      ];
+    });
+  }, [id, stop, setMessages]);
+
+  const isGenerating = isLoading || isResuming;
+  const queuePosition =
+    getLatestStreamData(isResuming ? resumeData : data, "queue-position")
+      ?.position ?? 0;
+
   // console.log(messages, "CHECK AGAIN");
   // console.log(id, input, isLoading, attachments, messages, "CHECK");
 
   return (
     <>
+      {isReadonly && ownerName && (
+        <div className="w-full md:max-w-3xl mx-auto px-4 text-xs text-muted-foreground flex-none">
+          {t("chat.sharedBy", { name: ownerName })}
+        </div>
+      )}
       <Messages
         chatId={id}
-        isLoading={isLoading}
+        isLoading={isGenerating}
+        queuePosition={queuePosition}
         messages={messages}
+        votes={votes}
         setMessages={setMessages}
         reload={reload}
+        append={append}
         isReadonly={isReadonly}
       />
       <form
@@ -79,8 +176,8 @@ export default function Chat({
             input={input}
             setInput={setInput}
             handleSubmit={handleSubmit}
-            isLoading={isLoading}
-            stop={stop}
+            isLoading={isGenerating}
+            stop={stopGenerating}
             attachments={attachments}
             setAttachments={setAttachments}
             messages={messages}
@@ -0,0 +1,78 @@
+"use client";
+
+import { Citation } from "@/lib/citations";
+import { useTranslation } from "@/lib/providers/locale-provider";
+import { ChevronRightIcon } from "lucide-react";
+
+const getFootnoteId = (toolCallId: string) => `citation-${toolCallId}`;
+
+export function CitationLink({
+  href,
+  children,
+}: {
+  href: string;
+  children: React.ReactNode;
+}) {
+  const toolCallId = href.replace("#cite-", "");
+
+  return (
+    <sup>
+      <a
+        href={`#${getFootnoteId(toolCallId)}`}
+        className="text-blue-500 hover:underline px-0.5"
+        onClick={(event) => {
+          event.preventDefault();
+          const footnote = document.getElementById(getFootnoteId(toolCallId));
+          if (!(footnote instanceof HTMLDetailsElement)) return;
+
+          footnote.open = true;
+          footnote.scrollIntoView({ behavior: "smooth", block: "nearest" });
+        }}
+      >
+        [{children}]
+      </a>
+    </sup>
+  );
+}
+
+export function CitationFootnotes({
+  citations,
+}: {
+  citations: Array<Citation>;
+}) {
+  const t = useTranslation();
+
+  if (citations.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-1 border-t pt-2 text-xs text-muted-foreground">
+      {citations.map((citation) => (
+        <details
+          key={citation.toolCallId}
+          id={getFootnoteId(citation.toolCallId)}
+          className="group"
+        >
+          <summary className="flex cursor-pointer list-none items-center gap-1">
+            <ChevronRightIcon
+              size={12}
+              className="transition-transform group-open:rotate-90"
+            />
+            [{citation.number}] {citation.toolName}
+          </summary>
+          <div className="ml-4 mt-1 flex flex-col gap-1">
+            <div className="font-medium">{t("message.citationArguments")}</div>
+            <pre className="whitespace-pre-wrap break-all rounded-md bg-muted p-2">
+              {JSON.stringify(citation.args, null, 2)}
+            </pre>
+            <div className="font-medium">{t("message.citationResult")}</div>
+            <pre className="whitespace-pre-wrap break-all rounded-md bg-muted p-2">
+              {citation.resultLines.length > 0
+                ? citation.resultLines.join("\n")
+                : t("message.citationNoResult")}
+            </pre>
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { startEvalRun } from "@/services/evals";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "../ui/button";
+
+export default function EvalRunButton() {
+  const router = useRouter();
+  const [isStarting, setIsStarting] = useState<boolean>(false);
+
+  const handleStart = async () => {
+    setIsStarting(true);
+
+    try {
+      const run = await startEvalRun();
+      toast.success("Eval run started, refresh to see results");
+      router.push(`/admin/evals/${run.id}`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to start eval run"
+      );
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Button size={"sm"} disabled={isStarting} onClick={handleStart}>
+      {isStarting ? "Starting..." : "Run eval"}
+    </Button>
+  );
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { ChatRequestOptions, CreateMessage, Message } from "ai";
+import { Button } from "../ui/button";
+
+export function FollowUpQuestions({
+  questions,
+  append,
+}: {
+  questions: Array<string>;
+  append: (
+    message: Message | CreateMessage,
+    chatRequestOptions?: ChatRequestOptions
+  ) => Promise<string | null | undefined>;
+}) {
+  return (
+    <div className="flex flex-wrap gap-2 w-full max-w-[700px] mx-auto pl-14">
+      {questions.map((question) => (
+        <Button
+          key={question}
+          variant="outline"
+          size="sm"
+          className="rounded-full h-auto py-1 whitespace-normal text-left text-xs"
+          onClick={() => append({ role: "user", content: question })}
+        >
+          {question}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { startTransition, useOptimistic, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { locales } from "@/lib/locales";
+import { useLocale, useTranslation } from "@/lib/providers/locale-provider";
+import { saveUserLocale } from "@/services/preferences";
+import { CheckCircle2Icon, LanguagesIcon } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+
+export function LanguageSelector() {
+  const router = useRouter();
+  const t = useTranslation();
+  const locale = useLocale();
+  const [open, setOpen] = useState(false);
+  const [optimisticLocale, setOptimisticLocale] = useOptimistic(locale);
+
+  return (
+    <DropdownMenu open={open} onOpenChange={setOpen}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" aria-label={t("navbar.language")}>
+          <LanguagesIcon />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">
+          {t("navbar.language")}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {locales.map(({ id, name }) => (
+          <DropdownMenuItem
+            key={id}
+            onSelect={() => {
+              setOpen(false);
+
+              startTransition(async () => {
+                setOptimisticLocale(id);
+
+                try {
+                  await saveUserLocale({ locale: id });
+                  router.refresh();
+                } catch (error) {
+                  toast.error(t("navbar.languageFailed"));
+                }
+              });
+            }}
+            className="gap-4 group/item flex flex-row justify-between items-center"
+            data-active={id === optimisticLocale}
+          >
+            {name}
+            <div className="text-foreground dark:text-foreground opacity-0 group-data-[active=true]/item:opacity-100">
+              <CheckCircle2Icon />
+            </div>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
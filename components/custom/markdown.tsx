@@ -1,5 +1,8 @@
+import { getCitations } from "@/lib/citations";
+import { ToolInvocation } from "ai";
+import equal from "fast-deep-equal";
 import Link from "next/link";
-import { memo } from "react";
+import { memo, useMemo } from "react";
 import ReactMarkdown, { type Components } from "react-markdown";
 import remarkGfm from "remark-gfm";
 import {
@@ -10,6 +13,7 @@ import {
   TableHeader,
   TableRow,
 } from "../ui/table";
+import { CitationFootnotes, CitationLink } from "./citation-footnotes";
 import { CodeBlock } from "./code-block";
 
 const components: Partial<Components> = {
@@ -51,6 +55,10 @@ const components: Partial<Components> = {
     );
   },
   a: ({ node, children, ...props }) => {
+    if (props.href?.startsWith("#cite-")) {
+      return <CitationLink href={props.href}>{children}</CitationLink>;
+    }
+
     return (
       // @ts-expect-error
       <Link
@@ -109,15 +117,34 @@ const components: Partial<Components> = {
 
 const remarkPlugins = [remarkGfm];
 
-const NonMemoizedMarkdown = ({ children }: { children: string }) => {
+const NonMemoizedMarkdown = ({
+  children,
+  toolInvocations,
+}: {
+  children: string;
+  toolInvocations?: Array<ToolInvocation>;
+}) => {
+  const { text, citations } = useMemo(
+    () =>
+      toolInvocations
+        ? getCitations({ text: children, toolInvocations })
+        : { text: children, citations: [] },
+    [children, toolInvocations]
+  );
+
   return (
-    <ReactMarkdown remarkPlugins={remarkPlugins} components={components}>
-      {children}
-    </ReactMarkdown>
+    <>
+      <ReactMarkdown remarkPlugins={remarkPlugins} components={components}>
+        {text}
+      </ReactMarkdown>
+      <CitationFootnotes citations={citations} />
+    </>
   );
 };
 
 export const Markdown = memo(
   NonMemoizedMarkdown,
-  (prevProps, nextProps) => prevProps.children === nextProps.children
+  (prevProps, nextProps) =>
+    prevProps.children === nextProps.children &&
+    equal(prevProps.toolInvocations, nextProps.toolInvocations)
 );
@@ -0,0 +1,165 @@
+"use client";
+
+import { useTranslation } from "@/lib/providers/locale-provider";
+import { useGeneralStore } from "@/lib/zustand";
+import { forkChatFromMessage } from "@/services/message";
+import { Vote } from "@prisma/client";
+import { Message as AIMessageType } from "ai";
+import { GitBranchIcon, ThumbsDownIcon, ThumbsUpIcon } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "sonner";
+import { useSWRConfig } from "swr";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import TooltipWrapper from "../utils/tooltip-wrapper";
+
+export function MessageActions({
+  chatId,
+  message,
+  vote,
+  isReadonly,
+}: {
+  chatId: string;
+  message: AIMessageType;
+  vote: Vote | undefined;
+  isReadonly: boolean;
+}) {
+  const router = useRouter();
+  const t = useTranslation();
+  const { mutate } = useSWRConfig();
+  const { refreshHistory } = useGeneralStore();
+  const [isBranching, setIsBranching] = useState<boolean>(false);
+  const [isVoting, setIsVoting] = useState<boolean>(false);
+  const [isAskingReason, setIsAskingReason] = useState<boolean>(false);
+  const [reason, setReason] = useState<string>("");
+
+  const canVote = message.role === "assistant" && !isReadonly;
+
+  const handleBranch = async () => {
+    setIsBranching(true);
+
+    try {
+      const forkedChat = await forkChatFromMessage({ id: message.id });
+      refreshHistory();
+      router.push(`/chat/${forkedChat.id}`);
+    } catch (error) {
+      toast.error(t("message.branchFailed"));
+    } finally {
+      setIsBranching(false);
+    }
+  };
+
+  const handleVote = async (type: "up" | "down", reason?: string) => {
+    setIsVoting(true);
+
+    try {
+      const response = await fetch("/api/vote", {
+        method: "PATCH",
+        body: JSON.stringify({ chatId, messageId: message.id, type, reason }),
+      });
+
+      if (!response.ok) throw new Error(await response.text());
+
+      const updatedVote: Vote = await response.json();
+
+      mutate<Array<Vote>>(
+        `/api/vote?chatId=${chatId}`,
+        (votes = []) => [
+          ...votes.filter((v) => v.messageId !== message.id),
+          updatedVote,
+        ],
+        { revalidate: false }
+      );
+
+      if (type === "down" && reason === undefined) {
+        setIsAskingReason(true);
+      } else {
+        setIsAskingReason(false);
+        setReason("");
+        if (type === "down") toast.success(t("message.feedbackThanks"));
+      }
+    } catch (error) {
+      toast.error(t("message.feedbackFailed"));
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-row gap-1 opacity-0 group-hover/message:opacity-100 transition-opacity">
+        {canVote && (
+          <>
+            <TooltipWrapper content={t("message.goodAnswer")}>
+              <Button
+                size={"icon"}
+                variant={"ghost"}
+                className="h-7 w-7"
+                disabled={isVoting || vote?.isUpvoted === true}
+                onClick={() => handleVote("up")}
+              >
+                <ThumbsUpIcon
+                  className={vote?.isUpvoted === true ? "fill-current" : ""}
+                />
+              </Button>
+            </TooltipWrapper>
+            <TooltipWrapper content={t("message.badAnswer")}>
+              <Button
+                size={"icon"}
+                variant={"ghost"}
+                className="h-7 w-7"
+                disabled={isVoting || vote?.isUpvoted === false}
+                onClick={() => handleVote("down")}
+              >
+                <ThumbsDownIcon
+                  className={vote?.isUpvoted === false ? "fill-current" : ""}
+                />
+              </Button>
+            </TooltipWrapper>
+          </>
+        )}
+        <TooltipWrapper content={t("message.branch")}>
+          <Button
+            size={"icon"}
+            variant={"ghost"}
+            className="h-7 w-7"
+            disabled={isBranching}
+            onClick={handleBranch}
+          >
+            <GitBranchIcon />
+          </Button>
+        </TooltipWrapper>
+      </div>
+      {isAskingReason && (
+        <form
+          className="flex flex-row gap-2 items-center max-w-md"
+          onSubmit={(event) => {
+            event.preventDefault();
+            handleVote("down", reason);
+          }}
+        >
+          <Input
+            autoFocus
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            placeholder={t("message.feedbackReason")}
+            maxLength={1000}
+            className="h-8 text-xs md:text-xs"
+          />
+          <Button type="submit" size={"sm"} disabled={isVoting}>
+            {t("message.send")}
+          </Button>
+          <Button
+            type="button"
+            size={"sm"}
+            variant={"ghost"}
+            onClick={() => setIsAskingReason(false)}
+          >
+            {t("message.skip")}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useTranslation } from "@/lib/providers/locale-provider";
+import { deleteTrailingMessages } from "@/services/message";
+import { Message as AIMessageType, ChatRequestOptions } from "ai";
+import {
+  Dispatch,
+  SetStateAction,
+  useEffect,
+  useRef,
+  useState,
+  type ChangeEvent,
+} from "react";
+import { toast } from "sonner";
+import { Button } from "../ui/button";
+import { Textarea } from "../ui/textarea";
+
+export type MessageEditorProps = {
+  message: AIMessageType;
+  setMode: Dispatch<SetStateAction<"view" | "edit">>;
+  setMessages: (
+    messages: AIMessageType[] | ((messages: AIMessageType[]) => AIMessageType[])
+  ) => void;
+  reload: (
+    chatRequestOptions?: ChatRequestOptions
+  ) => Promise<string | null | undefined>;
+};
+
+export function MessageEditor({
+  message,
+  setMode,
+  setMessages,
+  reload,
+}: MessageEditorProps) {
+  const t = useTranslation();
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [draftContent, setDraftContent] = useState<string>(message.content);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (textareaRef.current) {
+      adjustHeight();
+      textareaRef.current.focus();
+    }
+  }, []);
+
+  const adjustHeight = () => {
+    if (textareaRef.current) {
+      textareaRef.current.style.height = "auto";
+      textareaRef.current.style.height = `${
+        textareaRef.current.scrollHeight + 2
+      }px`;
+    }
+  };
+
+  const handleInput = (event: ChangeEvent<HTMLTextAreaElement>) => {
+    setDraftContent(event.target.value);
+    adjustHeight();
+  };
+
+  const handleSubmit = async () => {
+    if (draftContent.trim() === "") return;
+
+    setIsSubmitting(true);
+
+    try {
+      await deleteTrailingMessages({ id: message.id });
+    } catch (error) {
+      setIsSubmitting(false);
+      toast.error(t("message.editFailed"));
+      return;
+    }
+
+    setMessages((messages) => {
+      const index = messages.findIndex((m) => m.id === message.id);
+
+      if (index === -1) return messages;
+
+      const updatedMessage: AIMessageType = {
+        ...message,
+        content: draftContent,
+        parts: [{ type: "text", text: draftContent }],
+      };
+
+      return [...messages.slice(0, index), updatedMessage];
+    });
+
+    setMode("view");
+    reload();
+  };
+
+  return (
+    <div className="flex flex-col gap-2 w-full">
+      <Textarea
+        ref={textareaRef}
+        className="bg-transparent outline-none overflow-hidden resize-none !text-xs rounded-xl w-full"
+        value={draftContent}
+        onChange={handleInput}
+        onKeyDown={(event) => {
+          if (event.key === "Enter" && !event.shiftKey) {
+            event.preventDefault();
+            if (!isSubmitting) handleSubmit();
+          }
+          if (event.key === "Escape") setMode("view");
+        }}
+      />
+      <div className="flex flex-row gap-2 justify-end">
+        <Button
+          size={"sm"}
+          variant={"outline"}
+          onClick={() => setMode("view")}
+        >
+          {t("message.cancel")}
+        </Button>
+        <Button
+          size={"sm"}
+          variant={"default"}
+          disabled={isSubmitting || draftContent.trim() === ""}
+          onClick={handleSubmit}
+        >
+          {isSubmitting ? t("message.sending") : t("message.send")}
+        </Button>
+      </div>
+    </div>
+  );
+}
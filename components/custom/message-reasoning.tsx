@@ -1,5 +1,6 @@
 "use client";
 
+import { useTranslation } from "@/lib/providers/locale-provider";
 import { cn } from "@/lib/utils";
 import { AnimatePresence, motion } from "framer-motion";
 import { ChevronDownIcon, LoaderIcon } from "lucide-react";
@@ -15,6 +16,7 @@ export function MessageReasoning({
   isLoading,
   reasoning,
 }: MessageReasoningProps) {
+  const t = useTranslation();
   const [isExpanded, setIsExpanded] = useState(true);
 
   const variants = {
@@ -36,14 +38,14 @@ export function MessageReasoning({
     <div className="flex flex-col">
       {isLoading ? (
         <div className="flex flex-row gap-2 items-center">
-          <div className="font-medium">Reasoning</div>
+          <div className="font-medium">{t("message.reasoning")}</div>
           <div className="animate-spin">
             <LoaderIcon />
           </div>
         </div>
       ) : (
         <div className="flex flex-row gap-2 items-center">
-          <div className="font-medium">Reasoned for a few seconds</div>
+          <div className="font-medium">{t("message.reasoned")}</div>
           <div
             className="cursor-pointer"
             onClick={() => {
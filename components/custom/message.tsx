@@ -1,20 +1,36 @@
+import { getCitedResult } from "@/lib/citations";
 import { useStartTime } from "@/lib/hooks";
+import { isMessageKey } from "@/lib/locales";
+import { useTranslation } from "@/lib/providers/locale-provider";
 import { listOfTools } from "@/lib/tools";
-import { cn } from "@/lib/utils";
+import { cn, getMessageAnnotation, getMessageAnnotations } from "@/lib/utils";
 import { useUser } from "@clerk/nextjs";
+import { Vote } from "@prisma/client";
 import { Message as AIMessageType, ChatRequestOptions } from "ai";
 import equal from "fast-deep-equal";
-import { BotMessageSquareIcon, LoaderIcon } from "lucide-react";
+import {
+  BotMessageSquareIcon,
+  LoaderIcon,
+  PencilIcon,
+  TriangleAlertIcon,
+} from "lucide-react";
 import { motion } from "motion/react";
 import { memo, useEffect, useMemo, useState } from "react";
 import { Avatar, AvatarFallback } from "../ui/avatar";
+import { Button } from "../ui/button";
+import TooltipWrapper from "../utils/tooltip-wrapper";
 import { Markdown } from "./markdown";
+import { MessageActions } from "./message-actions";
+import { MessageEditor } from "./message-editor";
 import { MessageReasoning } from "./message-reasoning";
+import { ToolProgress } from "./tool-progress";
 
 type MessageProps = {
   chatId: string;
   message: AIMessageType;
+  vote: Vote | undefined;
   isLoading: boolean;
+  isGenerating: boolean;
   setMessages: (
     messages: AIMessageType[] | ((messages: AIMessageType[]) => AIMessageType[])
   ) => void;
@@ -24,8 +40,19 @@ type MessageProps = {
   isReadonly: boolean;
 };
 
-function PureMessage({ isLoading, message }: MessageProps) {
+function PureMessage({
+  chatId,
+  vote,
+  isLoading,
+  isGenerating,
+  message,
+  setMessages,
+  reload,
+  isReadonly,
+}: MessageProps) {
   const { user } = useUser();
+  const t = useTranslation();
+  const [mode, setMode] = useState<"view" | "edit">("view");
   const userIntial =
     `${user?.firstName?.toUpperCase().split("")[0]}` +
     `${user?.lastName?.toUpperCase().split("")[0]}`;
@@ -62,6 +89,15 @@ function PureMessage({ isLoading, message }: MessageProps) {
     [hasTool, message, isLoading]
   );
 
+  const isCancelled = !!getMessageAnnotation(message, "cancelled");
+  const modelAnnotation = getMessageAnnotation(message, "model");
+  const verificationAnnotation = getMessageAnnotation(message, "verification");
+  const toolProgress = getMessageAnnotations(message, "tool-progress");
+  const getToolSteps = (toolCallId: string) =>
+    toolProgress
+      .filter((progress) => progress.toolCallId === toolCallId)
+      .map((progress) => progress.step);
+
   const showTimer = hasReasoning || hasTool;
   const timerLoading =
     (hasReasoning && message.content === "") ||
@@ -77,7 +113,7 @@ function PureMessage({ isLoading, message }: MessageProps) {
   return (
     <div
       className={cn(
-        "flex gap-4 w-full max-w-[700px] mx-auto",
+        "flex gap-4 w-full max-w-[700px] mx-auto group/message",
         message.role === "assistant" ? "justify-start" : "justify-end"
       )}
     >
@@ -90,6 +126,28 @@ function PureMessage({ isLoading, message }: MessageProps) {
           </Avatar>
         )}
       </div>
+      {message.role === "user" && !isReadonly && mode === "view" && (
+        <TooltipWrapper content={t("message.edit")}>
+          <Button
+            size={"icon"}
+            variant={"ghost"}
+            className="self-center flex-none opacity-0 group-hover/message:opacity-100 transition-opacity"
+            onClick={() => setMode("edit")}
+          >
+            <PencilIcon />
+          </Button>
+        </TooltipWrapper>
+      )}
+      {message.role === "user" && mode === "view" && !isGenerating && (
+        <div className="self-center flex-none">
+          <MessageActions
+            chatId={chatId}
+            message={message}
+            vote={vote}
+            isReadonly={isReadonly}
+          />
+        </div>
+      )}
       <span
         className={cn(
           "text-xs p-2 flex flex-col gap-2 justify-center w-full text-wrap",
@@ -100,16 +158,32 @@ function PureMessage({ isLoading, message }: MessageProps) {
         {hasReasoning && reasoning.trim() !== "" && (
           <MessageReasoning isLoading={isLoading} reasoning={reasoning} />
         )}
-        <Markdown>{message.content as string}</Markdown>
+        {mode === "edit" ? (
+          <MessageEditor
+            key={message.id}
+            message={message}
+            setMode={setMode}
+            setMessages={setMessages}
+            reload={reload}
+          />
+        ) : (
+          <Markdown toolInvocations={message.toolInvocations}>
+            {message.content as string}
+          </Markdown>
+        )}
 
         {tool && tool.length > 0 && (
           <div className="flex flex-col gap-4">
             {tool.map((toolInvocation) => {
               if (!toolInvocation) return;
               const { toolName, toolCallId, state, args } = toolInvocation;
-              const toolDescription =
-                `${toolName}: ${listOfTools[toolName]?.description}` ||
-                `${toolName}: Getting data..`;
+              const descriptionKey = `toolDescription.${toolName}`;
+              const toolDescription = `${toolName}: ${
+                isMessageKey(descriptionKey)
+                  ? t(descriptionKey)
+                  : (listOfTools[toolName]?.description ??
+                    t("message.gettingData"))
+              }`;
 
               if (state === "result" && message.content === "") {
                 const { result } = toolInvocation;
@@ -117,26 +191,29 @@ function PureMessage({ isLoading, message }: MessageProps) {
                   <div key={toolCallId}>
                     <div className="flex flex-row gap-2 items-center">
                       <div className="font-medium">
-                        Processing retrieved {toolName} data
+                        {t("message.processingTool", { toolName })}
                       </div>
-                      <div>{JSON.stringify(result)}</div>
+                      <div>{JSON.stringify(getCitedResult(result))}</div>
                       <div className="animate-spin">
                         <LoaderIcon />
                       </div>
                     </div>
+                    <ToolProgress steps={getToolSteps(toolCallId)} isDone />
                   </div>
                 );
               }
               if (state === "call") {
+                const steps = getToolSteps(toolCallId);
                 return (
                   <div key={toolCallId}>
                     <div className="flex flex-row gap-2 items-center">
                       <div className="font-medium">{toolDescription}</div>
-                      <div>{JSON.stringify(args)}</div>
+                      {steps.length === 0 && <div>{JSON.stringify(args)}</div>}
                       <div className="animate-spin">
                         <LoaderIcon />
                       </div>
                     </div>
+                    <ToolProgress steps={steps} isDone={false} />
                   </div>
                 );
               }
@@ -147,13 +224,51 @@ function PureMessage({ isLoading, message }: MessageProps) {
                     key={toolCallId}
                     className="text-xs text-muted-foreground"
                   >
-                    Used Function: {toolName}
+                    {t("message.usedTool", { toolName })}
                   </div>
                 );
             })}
           </div>
         )}
         {showTimer && <TimerDisplay isLoading={timerLoading} />}
+        {isCancelled && (
+          <div className="text-xs text-muted-foreground">
+            {t("message.cancelled")}
+          </div>
+        )}
+        {modelAnnotation && (
+          <div className="text-xs text-muted-foreground">
+            {t("message.model", { model: modelAnnotation.modelId })}
+            {modelAnnotation.isAutoRouted && t("message.autoRouted")}
+          </div>
+        )}
+        {verificationAnnotation && (
+          <TooltipWrapper
+            content={t("message.unverifiedClaims", {
+              claims: verificationAnnotation.unsupportedClaims
+                .map((claim) => claim.value)
+                .join(", "),
+            })}
+          >
+            <div className="flex w-fit items-center gap-1 rounded-md border border-yellow-500/50 bg-yellow-500/10 px-2 py-0.5 text-xs text-yellow-600 dark:text-yellow-400">
+              <TriangleAlertIcon size={12} />
+              {t(
+                verificationAnnotation.unsupportedClaims.length === 1
+                  ? "message.unverifiedDetail"
+                  : "message.unverifiedDetails",
+                { count: verificationAnnotation.unsupportedClaims.length }
+              )}
+            </div>
+          </TooltipWrapper>
+        )}
+        {message.role === "assistant" && !isGenerating && (
+          <MessageActions
+            chatId={chatId}
+            message={message}
+            vote={vote}
+            isReadonly={isReadonly}
+          />
+        )}
       </span>
       <div className="w-[40px] flex-none">
         {/* {message.role === "user" && (
@@ -169,15 +284,24 @@ function PureMessage({ isLoading, message }: MessageProps) {
 
 export const Message = memo(PureMessage, (prevProps, nextProps) => {
   if (prevProps.isLoading !== nextProps.isLoading) return false;
+  if (prevProps.isGenerating !== nextProps.isGenerating) return false;
   if (prevProps.message.content !== nextProps.message.content) return false;
   if (prevProps.message.role !== nextProps.message.role) return false;
+  if (!equal(prevProps.vote, nextProps.vote)) return false;
   if (!equal(prevProps.message.parts, nextProps.message.parts)) return false;
+  if (!equal(prevProps.message.annotations, nextProps.message.annotations))
+    return false;
 
   return true;
 });
 
-export const ThinkingMessage = () => {
+export const ThinkingMessage = ({
+  queuePosition = 0,
+}: {
+  queuePosition?: number;
+}) => {
   const role = "assistant";
+  const t = useTranslation();
 
   return (
     <motion.div
@@ -206,7 +330,9 @@ export const ThinkingMessage = () => {
             "text-xs p-2 flex flex-col gap-2 justify-center w-full"
           )}
         >
-          Thinking...
+          {queuePosition > 0
+            ? t("chat.queuePosition", { position: queuePosition })
+            : t("chat.thinking")}
         </span>
         <div className="w-[40px] flex-none"></div>
       </div>
@@ -219,6 +345,7 @@ type TimerDisplayProps = {
 };
 
 const TimerDisplay: React.FC<TimerDisplayProps> = ({ isLoading }) => {
+  const t = useTranslation();
   const [startTime, setStartTime] = useStartTime();
   const [elapsed, setElapsed] = useState<number>(0);
 
@@ -237,8 +364,9 @@ const TimerDisplay: React.FC<TimerDisplayProps> = ({ isLoading }) => {
 
   return (
     <div className="text-xs text-muted-foreground">
-      Total Processing Time:{" "}
-      {minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`}
+      {t("message.processingTime", {
+        time: minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`,
+      })}
     </div>
   );
 };
@@ -1,46 +1,98 @@
 "use client";
 import { useStartTime } from "@/lib/hooks";
-import { cn } from "@/lib/utils";
-import { Message as AIMessageType, ChatRequestOptions } from "ai";
+import { useTranslation } from "@/lib/providers/locale-provider";
+import { cn, getMessageAnnotation } from "@/lib/utils";
+import { Vote } from "@prisma/client";
+import {
+  Message as AIMessageType,
+  ChatRequestOptions,
+  CreateMessage,
+} from "ai";
 import equal from "fast-deep-equal";
 import { BotMessageSquareIcon } from "lucide-react";
-import { memo, useEffect, useRef } from "react";
+import { useSearchParams } from "next/navigation";
+import { memo, useEffect, useRef, useState } from "react";
 import { useScrollToBottom } from "../utils/use-scroll-to-bottom";
+import { FollowUpQuestions } from "./follow-up-questions";
 import { Message, ThinkingMessage } from "./message";
 import Placeholder from "./placeholder";
 
 type MessagesProps = {
   chatId: string;
   isLoading: boolean;
+  queuePosition: number;
   messages: Array<AIMessageType>;
+  votes: Array<Vote> | undefined;
   setMessages: (
     messages: AIMessageType[] | ((messages: AIMessageType[]) => AIMessageType[])
   ) => void;
   reload: (
     chatRequestOptions?: ChatRequestOptions
   ) => Promise<string | null | undefined>;
+  append: (
+    message: AIMessageType | CreateMessage,
+    chatRequestOptions?: ChatRequestOptions
+  ) => Promise<string | null | undefined>;
   isReadonly: boolean;
 };
 
 function PureMessages({
   chatId,
   isLoading,
+  queuePosition,
   messages,
+  votes,
   setMessages,
   reload,
+  append,
   isReadonly,
 }: MessagesProps) {
+  const t = useTranslation();
   const [messagesContainerRef, messagesEndRef] =
     useScrollToBottom<HTMLDivElement>();
 
   const sectionRef = useRef<HTMLDivElement | null>(null);
 
+  // Set when arriving from a sidebar search result.
+  const searchParams = useSearchParams();
+  const linkedMessageId = searchParams.get("message");
+  const scrolledToMessageIdRef = useRef<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
+
   useEffect(() => {
+    if (linkedMessageId && scrolledToMessageIdRef.current !== linkedMessageId) {
+      const linkedMessage = sectionRef.current?.querySelector(
+        `[data-message-id="${linkedMessageId}"]`
+      );
+
+      if (linkedMessage) {
+        scrolledToMessageIdRef.current = linkedMessageId;
+        linkedMessage.scrollIntoView({ behavior: "smooth", block: "center" });
+        setHighlightedMessageId(linkedMessageId);
+        return;
+      }
+    }
+
     sectionRef.current?.scrollTo({
       top: sectionRef.current.scrollHeight,
       behavior: "smooth",
     });
-  }, [messages]);
+  }, [messages, linkedMessageId]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  const lastMessage = messages.at(-1);
+  const followUps =
+    !isLoading && !isReadonly && lastMessage?.role === "assistant"
+      ? getMessageAnnotation(lastMessage, "follow-ups")
+      : undefined;
 
   // console.log(isLoading, "LOADING?");
   const [startTime, setStartTime] = useStartTime();
@@ -72,7 +124,7 @@ function PureMessages({
                 (message.role === "assistant" && message.parts?.length === 0)
               )
           )
-          .map((message, index) => {
+          .map((message, index, visibleMessages) => {
             const messageContent = message.content.trim();
             const hasIncompleteReasoning =
               message.parts?.some(
@@ -84,11 +136,23 @@ function PureMessages({
             // console.log(message.content, "CHECK OUTSIDE");
 
             return (
-              <div key={message.id} className={`${message.role}-${message.id}`}>
+              <div
+                key={message.id}
+                data-message-id={message.id}
+                className={cn(
+                  `${message.role}-${message.id}`,
+                  "rounded-lg transition-colors duration-1000",
+                  highlightedMessageId === message.id && "bg-yellow-500/10"
+                )}
+              >
                 <Message
                   chatId={chatId}
                   message={message}
+                  vote={votes?.find((vote) => vote.messageId === message.id)}
                   isLoading={hasIncompleteReasoning}
+                  isGenerating={
+                    isLoading && index === visibleMessages.length - 1
+                  }
                   setMessages={setMessages}
                   reload={reload}
                   isReadonly={isReadonly}
@@ -99,14 +163,20 @@ function PureMessages({
       ) : (
         <Placeholder
           icon={BotMessageSquareIcon}
-          title={`Hi! I am ${"IdealAgent"}. How can I help you today?`}
+          title={t("chat.greeting", { name: "IdealAgent" })}
           subtitle=""
         />
       )}
 
       {isLoading &&
         messages.length > 0 &&
-        messages[messages.length - 1].role === "user" && <ThinkingMessage />}
+        messages[messages.length - 1].role === "user" && (
+          <ThinkingMessage queuePosition={queuePosition} />
+        )}
+
+      {followUps && (
+        <FollowUpQuestions questions={followUps.questions} append={append} />
+      )}
 
       <div className="shrink-0 min-w-[24px] min-h-64" />
       {/* <div className="h-32 bg-background flex-none"></div> */}
@@ -117,8 +187,10 @@ function PureMessages({
 export const Messages = memo(PureMessages, (prevProps, nextProps) => {
   if (prevProps.isLoading !== nextProps.isLoading) return false;
   if (prevProps.isLoading && nextProps.isLoading) return false;
+  if (prevProps.queuePosition !== nextProps.queuePosition) return false;
   if (prevProps.messages.length !== nextProps.messages.length) return false;
   if (!equal(prevProps.messages, nextProps.messages)) return false;
+  if (!equal(prevProps.votes, nextProps.votes)) return false;
 
   return true;
 });
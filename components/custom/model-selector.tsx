@@ -14,6 +14,7 @@ import {
 import { cn } from "@/lib/utils";
 
 import { chatModels } from "@/lib/models";
+import { useTranslation } from "@/lib/providers/locale-provider";
 import { saveChatModelAsCookie } from "@/services/chat";
 import { CheckCircle2Icon, ChevronDownIcon } from "lucide-react";
 
@@ -23,6 +24,7 @@ export function ModelSelector({
 }: {
   selectedModelId: string;
 } & React.ComponentProps<typeof Button>) {
+  const t = useTranslation();
   const [open, setOpen] = useState(false);
   const [optimisticModelId, setOptimisticModelId] =
     useOptimistic(selectedModelId);
@@ -79,8 +81,8 @@ export function ModelSelector({
         })}
         <DropdownMenuSeparator />
         <DropdownMenuLabel className="text-xs text-red-500">
-          <p>Note: If change from large to small,</p>
-          <p>will take a while to speed up</p>
+          <p>{t("navbar.modelNote")}</p>
+          <p>{t("navbar.modelNoteContinued")}</p>
         </DropdownMenuLabel>
       </DropdownMenuContent>
     </DropdownMenu>
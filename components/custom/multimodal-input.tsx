@@ -20,6 +20,7 @@ import {
 import { toast } from "sonner";
 import { useLocalStorage, useWindowSize } from "usehooks-ts";
 
+import { useTranslation } from "@/lib/providers/locale-provider";
 import { cn, sanitizeUIMessages } from "@/lib/utils";
 
 import equal from "fast-deep-equal";
@@ -62,6 +63,7 @@ function PureMultimodalInput({
   ) => void;
   className?: string;
 }) {
+  const t = useTranslation();
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const { width } = useWindowSize();
 
@@ -163,7 +165,7 @@ function PureMultimodalInput({
       const { error } = await response.json();
       toast.error(error);
     } catch (error) {
-      toast.error("Failed to upload file, please try again!");
+      toast.error(t("input.uploadFailed"));
     }
   };
 
@@ -232,7 +234,7 @@ function PureMultimodalInput({
 
       <Textarea
         ref={textareaRef}
-        placeholder="Send a message..."
+        placeholder={t("input.placeholder")}
         value={input}
         onChange={handleInput}
         className={cn(
@@ -245,7 +247,7 @@ function PureMultimodalInput({
             event.preventDefault();
 
             if (isLoading) {
-              toast.error("Please wait for the model to finish its response!");
+              toast.error(t("input.waitForResponse"));
             } else {
               submitForm();
             }
@@ -1,4 +1,5 @@
 "use client";
+import { useTranslation } from "@/lib/providers/locale-provider";
 import { useGeneralStore } from "@/lib/zustand";
 import { SquarePenIcon } from "lucide-react";
 import { motion } from "motion/react";
@@ -9,6 +10,8 @@ import PanelButton from "./sidebar-openbutton";
 
 export default function NavbarOpenButton() {
   const { navbarIsOpen } = useGeneralStore();
+  const t = useTranslation();
+
   return (
     <motion.div
       animate={String(navbarIsOpen)}
@@ -19,8 +22,8 @@ export default function NavbarOpenButton() {
       initial={{ opacity: 0, position: "absolute" }}
       className="flex"
     >
-      <PanelButton tooltip="Open sidebar" />
-      <TooltipWrapper content="New chat">
+      <PanelButton tooltip={t("sidebar.open")} />
+      <TooltipWrapper content={t("sidebar.newChat")}>
         <Link href={"/"}>
           <Button size={"icon"} variant={"ghost"}>
             <SquarePenIcon />
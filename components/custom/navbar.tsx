@@ -2,6 +2,7 @@ import { SignedIn, SignedOut, UserButton } from "@clerk/nextjs";
 import { LogInIcon } from "lucide-react";
 import { Button } from "../ui/button";
 import { ModeToggle } from "../utils/theme-toggle";
+import { LanguageSelector } from "./language-selector";
 import { ModelSelector } from "./model-selector";
 import NavbarOpenButton from "./navbar-openbutton";
 
@@ -17,6 +18,7 @@ export default function Navbar({
         <ModelSelector selectedModelId={selectedChatModel} />
       </div>
       <div className="flex gap-2 w-full justify-end pr-2">
+        <LanguageSelector />
         <ModeToggle />
         <SignedOut>
           <Button variant={"outline"} size={"icon"}>
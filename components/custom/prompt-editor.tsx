@@ -0,0 +1,190 @@
+"use client";
+
+import { publishPromptVersion, savePromptDraft } from "@/services/prompts";
+import { PromptVersion } from "@prisma/client";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { Textarea } from "../ui/textarea";
+
+export type PromptFamilyVersions = {
+  family: string;
+  versions: Array<PromptVersion>;
+  fallbackPrompt: string;
+};
+
+function getEditorContent({ versions, fallbackPrompt }: PromptFamilyVersions) {
+  const latest =
+    versions.find((version) => version.status === "DRAFT") ??
+    versions.find((version) => version.status === "PUBLISHED");
+
+  return latest?.content ?? fallbackPrompt.trim();
+}
+
+export default function PromptEditor({
+  families,
+}: {
+  families: Array<PromptFamilyVersions>;
+}) {
+  const router = useRouter();
+  const [selectedFamily, setSelectedFamily] = useState<string>(
+    families[0]?.family
+  );
+  const current = families.find((f) => f.family === selectedFamily)!;
+
+  const [content, setContent] = useState<string>(getEditorContent(current));
+  const [note, setNote] = useState<string>("");
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const selectFamily = (family: PromptFamilyVersions) => {
+    setSelectedFamily(family.family);
+    setContent(getEditorContent(family));
+    setNote("");
+  };
+
+  const handleSave = async (shouldPublish: boolean) => {
+    if (content.trim() === "") return;
+
+    setIsSaving(true);
+
+    try {
+      const draft = await savePromptDraft({
+        family: selectedFamily,
+        content,
+        note: note.trim() || undefined,
+      });
+
+      if (shouldPublish) await publishPromptVersion({ id: draft.id });
+
+      toast.success(
+        shouldPublish
+          ? `Published ${selectedFamily} v${draft.version}`
+          : `Saved ${selectedFamily} v${draft.version} as draft`
+      );
+      router.refresh();
+    } catch (error) {
+      toast.error("Failed to save prompt, please try again!");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePublish = async (version: PromptVersion) => {
+    try {
+      await publishPromptVersion({ id: version.id });
+      toast.success(`Published ${version.family} v${version.version}`);
+      router.refresh();
+    } catch (error) {
+      toast.error("Failed to publish prompt, please try again!");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4 w-full">
+      <div className="flex gap-2">
+        {families.map((family) => (
+          <Button
+            key={family.family}
+            size={"sm"}
+            variant={family.family === selectedFamily ? "secondary" : "outline"}
+            onClick={() => selectFamily(family)}
+          >
+            {family.family}
+          </Button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Placeholders: {"{{tools}}"} lists the available tools, {"{{salesData}}"}{" "}
+        inserts retrieved sales records.
+      </p>
+      <Textarea
+        className="min-h-[320px] font-mono !text-xs"
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+      />
+      <div className="flex gap-2 items-center">
+        <Input
+          className="max-w-md text-xs md:text-xs"
+          placeholder="What changed in this version?"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <Button
+          size={"sm"}
+          variant={"outline"}
+          disabled={isSaving}
+          onClick={() => handleSave(false)}
+        >
+          Save draft
+        </Button>
+        <Button
+          size={"sm"}
+          disabled={isSaving}
+          onClick={() => handleSave(true)}
+        >
+          Publish
+        </Button>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Version</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Note</TableHead>
+            <TableHead>Created</TableHead>
+            <TableHead>Published</TableHead>
+            <TableHead></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {current.versions.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center">
+                No versions yet, the built-in prompt is in use.
+              </TableCell>
+            </TableRow>
+          )}
+          {current.versions.map((version) => (
+            <TableRow key={version.id}>
+              <TableCell>v{version.version}</TableCell>
+              <TableCell>{version.status}</TableCell>
+              <TableCell>{version.note ?? "-"}</TableCell>
+              <TableCell>{version.createdAt.toLocaleString()}</TableCell>
+              <TableCell>
+                {version.publishedAt?.toLocaleString() ?? "-"}
+              </TableCell>
+              <TableCell className="flex gap-2 justify-end">
+                <Button
+                  size={"sm"}
+                  variant={"ghost"}
+                  onClick={() => setContent(version.content)}
+                >
+                  Load
+                </Button>
+                {version.status !== "PUBLISHED" && (
+                  <Button
+                    size={"sm"}
+                    variant={"ghost"}
+                    onClick={() => handlePublish(version)}
+                  >
+                    Publish
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
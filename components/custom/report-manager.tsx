@@ -0,0 +1,228 @@
+"use client";
+
+import { getNextCronRun } from "@/lib/cron";
+import { Translate } from "@/lib/locales";
+import { useTranslation } from "@/lib/providers/locale-provider";
+import { useGeneralStore } from "@/lib/zustand";
+import {
+  createScheduledReport,
+  deleteScheduledReport,
+  runScheduledReportNow,
+  setScheduledReportEnabled,
+} from "@/services/reports";
+import { ScheduledReport } from "@prisma/client";
+import { useRouter } from "next/navigation";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { Textarea } from "../ui/textarea";
+
+function getNextRunPreview(cron: string, t: Translate) {
+  try {
+    return t("reports.nextRun", {
+      time: getNextCronRun(cron).toLocaleString(),
+    });
+  } catch (error) {
+    return error instanceof Error
+      ? error.message
+      : t("reports.invalidSchedule");
+  }
+}
+
+export default function ReportManager({
+  reports,
+  models,
+}: {
+  reports: Array<ScheduledReport>;
+  models: Array<{ id: string; name: string }>;
+}) {
+  const router = useRouter();
+  const t = useTranslation();
+  const { refreshHistory } = useGeneralStore();
+  const [title, setTitle] = useState<string>("");
+  const [prompt, setPrompt] = useState<string>("");
+  const [cron, setCron] = useState<string>("0 8 * * 1");
+  const [model, setModel] = useState<string>(models[0]?.id ?? "");
+  const [email, setEmail] = useState<string>("");
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const nextRunPreview = useMemo(() => getNextRunPreview(cron, t), [cron, t]);
+
+  const handleCreate = async () => {
+    if (prompt.trim() === "") return;
+
+    setIsSaving(true);
+
+    try {
+      await createScheduledReport({ title, prompt, cron, model, email });
+      toast.success(t("reports.scheduled"));
+      setTitle("");
+      setPrompt("");
+      setEmail("");
+      router.refresh();
+    } catch (error) {
+      toast.error(t("reports.scheduleFailed"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRunNow = (report: ScheduledReport) => {
+    toast.promise(runScheduledReportNow({ id: report.id }), {
+      loading: t("reports.running", { title: report.title }),
+      success: (chatId) => {
+        refreshHistory();
+        router.push(`/chat/${chatId}`);
+        return t("reports.ready", { title: report.title });
+      },
+      error: t("reports.runFailed"),
+    });
+  };
+
+  const handleToggle = async (report: ScheduledReport) => {
+    try {
+      await setScheduledReportEnabled({
+        id: report.id,
+        isEnabled: !report.isEnabled,
+      });
+      router.refresh();
+    } catch (error) {
+      toast.error(t("reports.updateFailed"));
+    }
+  };
+
+  const handleDelete = async (report: ScheduledReport) => {
+    try {
+      await deleteScheduledReport({ id: report.id });
+      toast.success(t("reports.deleted", { title: report.title }));
+      router.refresh();
+    } catch (error) {
+      toast.error(t("reports.deleteFailed"));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-2">
+        <Input
+          placeholder={t("reports.titlePlaceholder")}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+        <Textarea
+          placeholder={t("reports.promptPlaceholder")}
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+        />
+        <div className="flex gap-2">
+          <div className="flex flex-col gap-1 w-full">
+            <Input
+              placeholder={t("reports.cronPlaceholder")}
+              value={cron}
+              onChange={(e) => setCron(e.target.value)}
+              className="font-mono"
+            />
+            <span className="text-xs text-muted-foreground">
+              {nextRunPreview}
+            </span>
+          </div>
+          <select
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            className="h-9 rounded-md border bg-background px-2 text-sm"
+          >
+            {models.map((chatModel) => (
+              <option key={chatModel.id} value={chatModel.id}>
+                {chatModel.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Input
+          type="email"
+          placeholder={t("reports.emailPlaceholder")}
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+        <Button onClick={handleCreate} disabled={isSaving} className="w-fit">
+          {t("reports.schedule")}
+        </Button>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{t("reports.columnTitle")}</TableHead>
+            <TableHead>{t("reports.columnSchedule")}</TableHead>
+            <TableHead>{t("reports.columnModel")}</TableHead>
+            <TableHead>{t("reports.columnNextRun")}</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {reports.map((report) => (
+            <TableRow key={report.id}>
+              <TableCell>
+                <div>{report.title}</div>
+                {report.email && (
+                  <div className="text-xs text-muted-foreground">
+                    {t("reports.emails", { email: report.email })}
+                  </div>
+                )}
+              </TableCell>
+              <TableCell className="font-mono">{report.cron}</TableCell>
+              <TableCell>{report.model}</TableCell>
+              <TableCell>
+                {report.isEnabled && report.nextRunAt
+                  ? report.nextRunAt.toLocaleString()
+                  : t("reports.paused")}
+              </TableCell>
+              <TableCell>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRunNow(report)}
+                  >
+                    {t("reports.runNow")}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleToggle(report)}
+                  >
+                    {report.isEnabled
+                      ? t("reports.pause")
+                      : t("reports.resume")}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDelete(report)}
+                  >
+                    {t("reports.delete")}
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+          {reports.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={5} className="text-muted-foreground">
+                {t("reports.empty")}
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+import { CHAT_DRAG_TYPE, DraggedChat } from "@/lib/chat-history";
+import { cn } from "@/lib/utils";
+import { ReactNode, useState } from "react";
+
+export default function SidebarDropZone({
+  onDropChat,
+  className,
+  children,
+}: {
+  onDropChat: (chat: DraggedChat) => void;
+  className?: string;
+  children: ReactNode;
+}) {
+  // Counts enter and leave events, they also fire for every child element.
+  const [dragDepth, setDragDepth] = useState(0);
+
+  const isChatDrag = (event: React.DragEvent) =>
+    event.dataTransfer.types.includes(CHAT_DRAG_TYPE);
+
+  return (
+    <div
+      className={cn(
+        "flex flex-col gap-2 rounded-md transition-colors",
+        dragDepth > 0 && "bg-secondary ring-1 ring-ring",
+        className
+      )}
+      onDragEnter={(event) => {
+        if (!isChatDrag(event)) return;
+        event.preventDefault();
+        setDragDepth((depth) => depth + 1);
+      }}
+      onDragOver={(event) => {
+        if (!isChatDrag(event)) return;
+        event.preventDefault();
+        event.dataTransfer.dropEffect = "move";
+      }}
+      onDragLeave={(event) => {
+        if (!isChatDrag(event)) return;
+        setDragDepth((depth) => Math.max(depth - 1, 0));
+      }}
+      onDrop={(event) => {
+        if (!isChatDrag(event)) return;
+        event.preventDefault();
+        setDragDepth(0);
+        onDropChat(JSON.parse(event.dataTransfer.getData(CHAT_DRAG_TYPE)));
+      }}
+    >
+      {children}
+    </div>
+  );
+}
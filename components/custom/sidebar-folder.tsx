@@ -0,0 +1,159 @@
+"use client";
+import { DraggedChat } from "@/lib/chat-history";
+import { useChatHistory } from "@/lib/hooks";
+import { useTranslation } from "@/lib/providers/locale-provider";
+import { deleteChatFolder, renameChatFolder } from "@/services/folders";
+import { ChatFolder } from "@prisma/client";
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  EllipsisIcon,
+  FolderIcon,
+} from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "../ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "../ui/dropdown-menu";
+import { Input } from "../ui/input";
+import SidebarDropZone from "./sidebar-drop-zone";
+import SidebarNavButton from "./sidebar-navbutton";
+import SidebarShowMore from "./sidebar-show-more";
+
+export default function SidebarFolder({
+  folder,
+  onDropChat,
+  onChange,
+}: {
+  folder: ChatFolder;
+  onDropChat: (chat: DraggedChat) => void;
+  onChange: () => void;
+}) {
+  const t = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(folder.name);
+
+  const { chats, hasMore, isLoading, isLoadingMore, loadMore } = useChatHistory(
+    {
+      section: "folder",
+      folderId: folder.id,
+      isEnabled: isOpen,
+    }
+  );
+
+  const handleRename = async () => {
+    setIsRenaming(false);
+
+    if (name.trim() === "" || name.trim() === folder.name) {
+      setName(folder.name);
+      return;
+    }
+
+    try {
+      await renameChatFolder({ id: folder.id, name });
+      onChange();
+    } catch (error) {
+      setName(folder.name);
+      toast.error(t("sidebar.folderFailed"));
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteChatFolder({ id: folder.id });
+      toast.success(t("sidebar.folderDeleted"));
+      onChange();
+    } catch (error) {
+      toast.error(t("sidebar.folderFailed"));
+    }
+  };
+
+  return (
+    <SidebarDropZone
+      onDropChat={(chat) => {
+        setIsOpen(true);
+        onDropChat(chat);
+      }}
+    >
+      <div className="flex items-center gap-1 text-sm">
+        {isRenaming ? (
+          <Input
+            autoFocus
+            className="h-7 text-xs"
+            value={name}
+            aria-label={t("sidebar.folderName")}
+            onChange={(event) => setName(event.target.value)}
+            onBlur={handleRename}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") handleRename();
+              if (event.key === "Escape") {
+                setName(folder.name);
+                setIsRenaming(false);
+              }
+            }}
+          />
+        ) : (
+          <button
+            type="button"
+            className="flex flex-1 items-center gap-1 min-w-0 text-left"
+            onClick={() => setIsOpen(!isOpen)}
+          >
+            {isOpen ? (
+              <ChevronDownIcon className="size-4 flex-none" />
+            ) : (
+              <ChevronRightIcon className="size-4 flex-none" />
+            )}
+            <FolderIcon className="size-4 flex-none" />
+            <span className="truncate">{folder.name}</span>
+          </button>
+        )}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant="ghost" className="h-7 px-1 flex-none">
+              <EllipsisIcon />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="right">
+            <DropdownMenuItem onClick={() => setIsRenaming(true)}>
+              {t("sidebar.renameFolder")}
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              className="!text-destructive"
+              onClick={handleDelete}
+            >
+              {t("sidebar.deleteFolder")}
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      {isOpen && (
+        <div className="flex flex-col gap-2 pl-3">
+          {chats.map((chat) => (
+            <SidebarNavButton
+              key={chat.id}
+              name={chat.title}
+              chatId={chat.id}
+              visibility={chat.visibility}
+              parentChat={chat.parentChat}
+              isPinned={chat.isPinned}
+              folderId={chat.folderId}
+            />
+          ))}
+          {!isLoading && chats.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              {t("sidebar.emptyFolder")}
+            </p>
+          )}
+          {hasMore && (
+            <SidebarShowMore isLoading={isLoadingMore} onClick={loadMore} />
+          )}
+        </div>
+      )}
+    </SidebarDropZone>
+  );
+}
@@ -1,12 +1,15 @@
 "use client";
-import { cn, fetcher } from "@/lib/utils";
-import { Chat } from "@prisma/client";
-import { EllipsisIcon } from "lucide-react";
+import { CHAT_DRAG_TYPE, DraggedChat } from "@/lib/chat-history";
+import { useTranslation } from "@/lib/providers/locale-provider";
+import { cn } from "@/lib/utils";
+import { useGeneralStore } from "@/lib/zustand";
+import { moveChatToFolder, setChatPinned } from "@/services/folders";
+import { Chat, Visibility } from "@prisma/client";
+import { EllipsisIcon, GitBranchIcon, GlobeIcon, PinIcon } from "lucide-react";
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
-import useSWR from "swr";
 import { Button, buttonVariants } from "../ui/button";
 import {
   DropdownMenu,
@@ -19,20 +22,23 @@ import { Input } from "../ui/input";
 export default function SidebarNavButton({
   name,
   chatId,
+  visibility,
+  parentChat,
+  isPinned = false,
+  folderId = null,
 }: {
   name?: string;
   chatId?: string;
+  visibility?: Visibility;
+  parentChat?: Pick<Chat, "id" | "title"> | null;
+  isPinned?: boolean;
+  folderId?: string | null;
 }) {
   if (!chatId) return null;
   const router = useRouter();
   const pathname = usePathname();
-  const {
-    data: history,
-    isLoading,
-    mutate,
-  } = useSWR<Array<Chat>>(chatId ? "/api/history" : null, fetcher, {
-    fallbackData: [],
-  });
+  const t = useTranslation();
+  const { refreshHistory } = useGeneralStore();
 
   const handleDelete = useCallback(() => {
     const deletePromise = fetch(`/api/chat?id=${chatId}`, {
@@ -40,19 +46,68 @@ export default function SidebarNavButton({
     });
 
     toast.promise(deletePromise, {
-      loading: "Deleting chat...",
+      loading: t("sidebar.deleting"),
       success: () => {
-        mutate((history) => {
-          if (history) {
-            return history.filter((h) => h.id !== chatId);
-          }
-        });
+        refreshHistory();
         router.push("/");
-        return "Chat deleted successfully";
+        return t("sidebar.deleted");
       },
-      error: "Failed to delete chat",
+      error: t("sidebar.deleteFailed"),
     });
-  }, []);
+  }, [t]);
+
+  const handleVisibilityChange = useCallback(
+    (visibility: Visibility) => {
+      const updatePromise = fetch("/api/chat/visibility", {
+        method: "PATCH",
+        body: JSON.stringify({ chatId, visibility }),
+      }).then(async (response) => {
+        if (!response.ok) throw new Error(await response.text());
+
+        refreshHistory();
+
+        if (visibility === "PUBLIC") {
+          await navigator.clipboard.writeText(
+            `${window.location.origin}/chat/${chatId}`
+          );
+        }
+      });
+
+      toast.promise(updatePromise, {
+        loading:
+          visibility === "PUBLIC"
+            ? t("sidebar.sharing")
+            : t("sidebar.unsharing"),
+        success:
+          visibility === "PUBLIC"
+            ? t("sidebar.shareLinkCopied")
+            : t("sidebar.madePrivate"),
+        error: t("sidebar.visibilityFailed"),
+      });
+    },
+    [chatId, refreshHistory, t]
+  );
+
+  const handlePinnedChange = useCallback(
+    async (isPinned: boolean) => {
+      try {
+        await setChatPinned({ chatId, isPinned });
+        refreshHistory();
+      } catch (error) {
+        toast.error(t("sidebar.moveFailed"));
+      }
+    },
+    [chatId, refreshHistory, t]
+  );
+
+  const handleRemoveFromFolder = useCallback(async () => {
+    try {
+      await moveChatToFolder({ chatId, folderId: null });
+      refreshHistory();
+    } catch (error) {
+      toast.error(t("sidebar.moveFailed"));
+    }
+  }, [chatId, refreshHistory, t]);
 
   const [renameActive, setRenameActive] = useState(false);
   const [renameValue, setRenameValue] = useState(name || "");
@@ -72,60 +127,117 @@ export default function SidebarNavButton({
     setRenameActive(false);
   }, [renameValue, setRenameActive]);
   return (
-    <Link
-      href={`/chat/${chatId}`}
-      className={cn(
-        buttonVariants({
-          variant: pathname === `/chat/${chatId}` ? "secondary" : "outline",
-          size: "sm",
-        }),
-        "relative justify-start flex-shrink-0 truncate group/chatButton"
-      )}
-    >
-      {renameActive ? (
-        <Input
-          className="w-full text-xs px-0 !ring-0 !outline-none !border-none"
-          value={renameValue}
-          onChange={(e) => setRenameValue(e.target.value)}
-          onBlur={handleRename}
-          onKeyDown={(e) => e.key === "Enter" && handleRename()}
-          ref={renameRef}
-        />
-      ) : (
-        renameValue
-      )}
+    <div className="flex flex-col gap-1 flex-shrink-0">
+      <Link
+        href={`/chat/${chatId}`}
+        draggable
+        onDragStart={(event) => {
+          event.dataTransfer.setData(
+            CHAT_DRAG_TYPE,
+            JSON.stringify({ chatId, isPinned, folderId } satisfies DraggedChat)
+          );
+          event.dataTransfer.effectAllowed = "move";
+        }}
+        className={cn(
+          buttonVariants({
+            variant: pathname === `/chat/${chatId}` ? "secondary" : "outline",
+            size: "sm",
+          }),
+          "relative justify-start flex-shrink-0 truncate group/chatButton"
+        )}
+      >
+        {renameActive ? (
+          <Input
+            className="w-full text-xs px-0 !ring-0 !outline-none !border-none"
+            value={renameValue}
+            onChange={(e) => setRenameValue(e.target.value)}
+            onBlur={handleRename}
+            onKeyDown={(e) => e.key === "Enter" && handleRename()}
+            ref={renameRef}
+          />
+        ) : (
+          <>
+            {isPinned && <PinIcon className="flex-none" />}
+            {visibility === "PUBLIC" && <GlobeIcon className="flex-none" />}
+            <span className="truncate">{renameValue}</span>
+          </>
+        )}
 
-      <DropdownMenu>
-        <DropdownMenuTrigger asChild>
-          <Button
-            size={"sm"}
-            variant={"ghost"}
-            className={cn(
-              "absolute top-[50%] translate-y-[-50%] right-0 !outline-none !ring-0 transition-colors",
-              pathname === `/chat/${chatId}`
-                ? "!bg-secondary"
-                : "bg-gradient-to-l from-background to-transparent from-70% hover:from-secondary group-hover/chatButton:from-secondary"
-            )}
-          >
-            <EllipsisIcon />
-          </Button>
-        </DropdownMenuTrigger>
-        <DropdownMenuContent side="right">
-          {/* <DropdownMenuItem
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              size={"sm"}
+              variant={"ghost"}
+              className={cn(
+                "absolute top-[50%] translate-y-[-50%] right-0 !outline-none !ring-0 transition-colors",
+                pathname === `/chat/${chatId}`
+                  ? "!bg-secondary"
+                  : "bg-gradient-to-l from-background to-transparent from-70% hover:from-secondary group-hover/chatButton:from-secondary"
+              )}
+            >
+              <EllipsisIcon />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="right">
+            {/* <DropdownMenuItem
             onClick={() => setRenameActive(true)}
             // disabled={isPendingRenameChat}
           >
             Rename
           </DropdownMenuItem> */}
-          <DropdownMenuItem
-            className={cn("!text-destructive")}
-            onClick={handleDelete}
-            // disabled={isPendingDeleteChat}
-          >
-            Delete
-          </DropdownMenuItem>
-        </DropdownMenuContent>
-      </DropdownMenu>
-    </Link>
+            <DropdownMenuItem onClick={() => handlePinnedChange(!isPinned)}>
+              {isPinned ? t("sidebar.unpin") : t("sidebar.pin")}
+            </DropdownMenuItem>
+            {folderId && (
+              <DropdownMenuItem onClick={handleRemoveFromFolder}>
+                {t("sidebar.removeFromFolder")}
+              </DropdownMenuItem>
+            )}
+            {visibility === "PUBLIC" ? (
+              <>
+                <DropdownMenuItem
+                  onClick={() =>
+                    navigator.clipboard
+                      .writeText(`${window.location.origin}/chat/${chatId}`)
+                      .then(() => toast.success(t("sidebar.shareLinkCopied")))
+                  }
+                >
+                  {t("sidebar.copyShareLink")}
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => handleVisibilityChange("PRIVATE")}
+                >
+                  {t("sidebar.makePrivate")}
+                </DropdownMenuItem>
+              </>
+            ) : (
+              <DropdownMenuItem
+                onClick={() => handleVisibilityChange("PUBLIC")}
+              >
+                {t("sidebar.share")}
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem
+              className={cn("!text-destructive")}
+              onClick={handleDelete}
+              // disabled={isPendingDeleteChat}
+            >
+              {t("sidebar.delete")}
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </Link>
+      {parentChat && (
+        <Link
+          href={`/chat/${parentChat.id}`}
+          className="flex items-center gap-1 pl-2 text-[10px] text-muted-foreground hover:text-foreground truncate"
+        >
+          <GitBranchIcon className="w-3 h-3 flex-none" />
+          <span className="truncate">
+            {t("sidebar.branchedFrom", { title: parentChat.title })}
+          </span>
+        </Link>
+      )}
+    </div>
   );
 }
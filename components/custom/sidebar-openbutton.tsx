@@ -1,5 +1,6 @@
 "use client";
 
+import { useTranslation } from "@/lib/providers/locale-provider";
 import { useGeneralStore } from "@/lib/zustand";
 import { PanelLeftCloseIcon, PanelRightCloseIcon } from "lucide-react";
 import { useEffect } from "react";
@@ -9,6 +10,7 @@ import TooltipWrapper from "../utils/tooltip-wrapper";
 export default function PanelButton({ tooltip }: { tooltip?: string }) {
   const { setNavbarIsOpenLocaleStore, setNavbarIsOpen, navbarIsOpen } =
     useGeneralStore();
+  const t = useTranslation();
 
   useEffect(() => {
     if (navbarIsOpen !== undefined) return;
@@ -31,7 +33,7 @@ export default function PanelButton({ tooltip }: { tooltip?: string }) {
   }, [navbarIsOpen]);
 
   return (
-    <TooltipWrapper content={tooltip ? tooltip : "Sidebar"}>
+    <TooltipWrapper content={tooltip ? tooltip : t("sidebar.toggle")}>
       <Button
         size={"icon"}
         variant={"ghost"}
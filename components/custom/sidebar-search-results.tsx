@@ -0,0 +1,80 @@
+"use client";
+import { useTranslation } from "@/lib/providers/locale-provider";
+import { ChatSearchResult, splitSnippet } from "@/lib/search";
+import { fetcher } from "@/lib/utils";
+import Link from "next/link";
+import useSWR from "swr";
+import { useDebounceValue } from "usehooks-ts";
+
+export default function SidebarSearchResults({ query }: { query: string }) {
+  const t = useTranslation();
+  const [debouncedQuery] = useDebounceValue(query.trim(), 300);
+
+  const {
+    data: results,
+    isLoading,
+    error,
+  } = useSWR<Array<ChatSearchResult>>(
+    debouncedQuery
+      ? `/api/search?q=${encodeURIComponent(debouncedQuery)}`
+      : null,
+    fetcher,
+    { keepPreviousData: true }
+  );
+
+  if (error) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {t("sidebar.searchFailed")}
+      </p>
+    );
+  }
+
+  if (isLoading && !results) {
+    return (
+      <p className="text-sm text-muted-foreground">{t("sidebar.searching")}</p>
+    );
+  }
+
+  if (results && results.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">{t("sidebar.noResults")}</p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-1">
+      {results?.map((result) => {
+        const href = result.messageId
+          ? `/chat/${result.chatId}?message=${result.messageId}`
+          : `/chat/${result.chatId}`;
+
+        return (
+          <Link
+            key={`${result.chatId}-${result.messageId}`}
+            href={href}
+            className="flex flex-col gap-0.5 rounded-md px-2 py-1 hover:bg-muted"
+          >
+            <span className="truncate text-sm font-medium">{result.title}</span>
+            {result.messageId && (
+              <span className="line-clamp-3 text-xs text-muted-foreground">
+                {splitSnippet(result.snippet).map((piece, index) =>
+                  piece.isMatch ? (
+                    <mark
+                      key={index}
+                      className="rounded-sm bg-yellow-500/30 text-foreground"
+                    >
+                      {piece.text}
+                    </mark>
+                  ) : (
+                    <span key={index}>{piece.text}</span>
+                  )
+                )}
+              </span>
+            )}
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
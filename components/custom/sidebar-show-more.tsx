@@ -0,0 +1,25 @@
+"use client";
+import { useTranslation } from "@/lib/providers/locale-provider";
+import { Button } from "../ui/button";
+
+export default function SidebarShowMore({
+  isLoading,
+  onClick,
+}: {
+  isLoading: boolean;
+  onClick: () => void;
+}) {
+  const t = useTranslation();
+
+  return (
+    <Button
+      size="sm"
+      variant="ghost"
+      className="text-xs text-muted-foreground flex-shrink-0"
+      disabled={isLoading}
+      onClick={onClick}
+    >
+      {t("sidebar.showMore")}
+    </Button>
+  );
+}
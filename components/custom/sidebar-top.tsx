@@ -1,21 +1,33 @@
 "use client";
-import { SquarePenIcon } from "lucide-react";
+import { useTranslation } from "@/lib/providers/locale-provider";
+import { KeyRoundIcon, SquarePenIcon } from "lucide-react";
 import Link from "next/link";
 import { Button } from "../ui/button";
 import TooltipWrapper from "../utils/tooltip-wrapper";
 import PanelButton from "./sidebar-openbutton";
 
 export default function SidebarTop() {
+  const t = useTranslation();
+
   return (
     <div className="flex justify-between p-2 z-[1]">
-      <PanelButton tooltip="Close sidebar" />
-      <TooltipWrapper content="New chat">
-        <Link href={"/"}>
-          <Button size={"icon"} variant={"ghost"}>
-            <SquarePenIcon />
-          </Button>
-        </Link>
-      </TooltipWrapper>
+      <PanelButton tooltip={t("sidebar.close")} />
+      <div className="flex">
+        <TooltipWrapper content={t("sidebar.apiKeys")}>
+          <Link href={"/settings/api-keys"}>
+            <Button size={"icon"} variant={"ghost"}>
+              <KeyRoundIcon />
+            </Button>
+          </Link>
+        </TooltipWrapper>
+        <TooltipWrapper content={t("sidebar.newChat")}>
+          <Link href={"/"}>
+            <Button size={"icon"} variant={"ghost"}>
+              <SquarePenIcon />
+            </Button>
+          </Link>
+        </TooltipWrapper>
+      </div>
     </div>
   );
 }
@@ -1,31 +1,117 @@
 "use client";
-import { cn, fetcher } from "@/lib/utils";
+import {
+  ChatDateGroup,
+  DraggedChat,
+  groupChatsByDate,
+} from "@/lib/chat-history";
+import { useChatHistory } from "@/lib/hooks";
+import { MessageKey } from "@/lib/locales";
+import { useTranslation } from "@/lib/providers/locale-provider";
+import { cn } from "@/lib/utils";
 import { useGeneralStore } from "@/lib/zustand";
-import { Chat } from "@prisma/client";
+import type { HistoryChat } from "@/services/chat";
+import {
+  createChatFolder,
+  getChatFolders,
+  moveChatToFolder,
+  setChatPinned,
+} from "@/services/folders";
+import { FolderPlusIcon, SearchIcon } from "lucide-react";
 import { motion } from "motion/react";
+import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
 import useSWR from "swr";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import SidebarDropZone from "./sidebar-drop-zone";
+import SidebarFolder from "./sidebar-folder";
 import SidebarNavButton from "./sidebar-navbutton";
+import SidebarSearchResults from "./sidebar-search-results";
+import SidebarShowMore from "./sidebar-show-more";
 import SidebarTop from "./sidebar-top";
 
+const dateGroupLabels: Record<ChatDateGroup, MessageKey> = {
+  today: "sidebar.today",
+  yesterday: "sidebar.yesterday",
+  previous7Days: "sidebar.previous7Days",
+  older: "sidebar.older",
+};
+
 export default function Sidebar({ userId }: { userId?: string }) {
   const pathname = usePathname();
-  const {
-    data: history,
-    isLoading,
-    mutate,
-  } = useSWR<Array<Chat>>(userId ? "/api/history" : null, fetcher, {
-    fallbackData: [],
+  const t = useTranslation();
+  const { navbarIsOpen, refreshHistory } = useGeneralStore();
+
+  const pinned = useChatHistory({ section: "pinned", isEnabled: !!userId });
+  const reportRuns = useChatHistory({
+    section: "reports",
+    isEnabled: !!userId,
   });
+  const history = useChatHistory({ section: "chats", isEnabled: !!userId });
+  const { data: folders, mutate: mutateFolders } = useSWR(
+    userId ? "chat-folders" : null,
+    () => getChatFolders(),
+    { fallbackData: [] }
+  );
 
   useEffect(() => {
-    mutate();
-  }, [pathname, mutate]);
+    refreshHistory();
+  }, [pathname, refreshHistory]);
+
+  const [isCreatingFolder, setIsCreatingFolder] = useState(false);
+  const [folderName, setFolderName] = useState("");
+
+  const handleCreateFolder = async () => {
+    setIsCreatingFolder(false);
+    setFolderName("");
+
+    if (folderName.trim() === "") return;
 
-  const { navbarIsOpen } = useGeneralStore();
+    try {
+      await createChatFolder({ name: folderName });
+      mutateFolders();
+    } catch (error) {
+      toast.error(t("sidebar.folderFailed"));
+    }
+  };
+
+  // Pinning keeps a chat in its folder, so it goes back there once unpinned.
+  const handleDropChat = async (
+    chat: DraggedChat,
+    target: { isPinned: boolean; folderId: string | null }
+  ) => {
+    try {
+      if (chat.isPinned !== target.isPinned) {
+        await setChatPinned({ chatId: chat.chatId, isPinned: target.isPinned });
+      }
+      if (!target.isPinned && chat.folderId !== target.folderId) {
+        await moveChatToFolder({
+          chatId: chat.chatId,
+          folderId: target.folderId,
+        });
+      }
+      refreshHistory();
+    } catch (error) {
+      toast.error(t("sidebar.moveFailed"));
+    }
+  };
+
+  const renderChat = (chat: HistoryChat) => (
+    <SidebarNavButton
+      key={chat.id}
+      name={chat.title}
+      chatId={chat.id}
+      visibility={chat.visibility}
+      parentChat={chat.parentChat}
+      isPinned={chat.isPinned}
+      folderId={chat.folderId}
+    />
+  );
 
   const [isOpen, setIsOpen] = useState<boolean | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
 
   useEffect(() => {
     if (isOpen === null)
@@ -55,29 +141,147 @@ export default function Sidebar({ userId }: { userId?: string }) {
       )}
     >
       <SidebarTop />
+      <div className="relative px-4 pb-2">
+        <SearchIcon className="absolute left-6 top-2.5 size-4 text-muted-foreground" />
+        <Input
+          type="search"
+          value={searchQuery}
+          onChange={(event) => setSearchQuery(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Escape") setSearchQuery("");
+          }}
+          placeholder={t("sidebar.search")}
+          aria-label={t("sidebar.search")}
+          className="pl-8"
+        />
+      </div>
       <div
         ref={sectionRef}
         className="flex flex-col gap-2 h-full overflow-y-auto px-4 overflow-x-hidden"
       >
-        <span className="font-bold text-muted-foreground">Chats</span>
-        {history &&
-          history.length > 0 &&
-          (history as Chat[]).map((chat) => (
-            <SidebarNavButton
-              key={chat.id}
-              name={chat.title}
-              chatId={chat.id}
-            />
-          ))}
-        {!isLoading && history && history.length === 0 && (
-          <nav className="flex flex-col w-full h-full justify-center items-center">
-            <p className="text-muted-foreground">No chat history</p>
-          </nav>
-        )}
-        {isLoading && (
-          <nav className="flex flex-col w-full h-full justify-center items-center">
-            <p className="text-muted-foreground">Loading chat...</p>
-          </nav>
+        {searchQuery.trim() !== "" ? (
+          <SidebarSearchResults query={searchQuery} />
+        ) : (
+          <>
+            <SidebarDropZone
+              onDropChat={(chat) =>
+                handleDropChat(chat, {
+                  isPinned: true,
+                  folderId: chat.folderId,
+                })
+              }
+            >
+              <span className="font-bold text-muted-foreground">
+                {t("sidebar.pinned")}
+              </span>
+              {pinned.chats.map(renderChat)}
+              {!pinned.isLoading && pinned.chats.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {t("sidebar.pinHint")}
+                </p>
+              )}
+            </SidebarDropZone>
+            <div className="flex justify-between items-center">
+              <span className="font-bold text-muted-foreground">
+                {t("sidebar.folders")}
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-1"
+                aria-label={t("sidebar.newFolder")}
+                onClick={() => setIsCreatingFolder(true)}
+              >
+                <FolderPlusIcon />
+              </Button>
+            </div>
+            {isCreatingFolder && (
+              <Input
+                autoFocus
+                className="h-7 text-xs flex-shrink-0"
+                value={folderName}
+                placeholder={t("sidebar.folderName")}
+                aria-label={t("sidebar.folderName")}
+                onChange={(event) => setFolderName(event.target.value)}
+                onBlur={handleCreateFolder}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter") handleCreateFolder();
+                  if (event.key === "Escape") {
+                    setFolderName("");
+                    setIsCreatingFolder(false);
+                  }
+                }}
+              />
+            )}
+            {folders?.map((folder) => (
+              <SidebarFolder
+                key={folder.id}
+                folder={folder}
+                onDropChat={(chat) =>
+                  handleDropChat(chat, { isPinned: false, folderId: folder.id })
+                }
+                onChange={() => {
+                  mutateFolders();
+                  refreshHistory();
+                }}
+              />
+            ))}
+            <SidebarDropZone
+              onDropChat={(chat) =>
+                handleDropChat(chat, { isPinned: false, folderId: null })
+              }
+            >
+              <div className="flex justify-between items-center">
+                <span className="font-bold text-muted-foreground">
+                  {t("sidebar.reports")}
+                </span>
+                <Link
+                  href="/reports"
+                  className="text-xs text-muted-foreground hover:underline"
+                >
+                  {t("sidebar.manage")}
+                </Link>
+              </div>
+              {reportRuns.chats.map(renderChat)}
+              {reportRuns.hasMore && (
+                <SidebarShowMore
+                  isLoading={reportRuns.isLoadingMore}
+                  onClick={reportRuns.loadMore}
+                />
+              )}
+              <span className="font-bold text-muted-foreground">
+                {t("sidebar.chats")}
+              </span>
+              {groupChatsByDate(history.chats).map(({ group, chats }) => (
+                <div key={group} className="flex flex-col gap-2">
+                  <span className="text-xs text-muted-foreground">
+                    {t(dateGroupLabels[group])}
+                  </span>
+                  {chats.map(renderChat)}
+                </div>
+              ))}
+              {history.hasMore && (
+                <SidebarShowMore
+                  isLoading={history.isLoadingMore}
+                  onClick={history.loadMore}
+                />
+              )}
+              {!history.isLoading && history.chats.length === 0 && (
+                <nav className="flex flex-col w-full h-full justify-center items-center">
+                  <p className="text-muted-foreground">
+                    {t("sidebar.noChats")}
+                  </p>
+                </nav>
+              )}
+              {history.isLoading && (
+                <nav className="flex flex-col w-full h-full justify-center items-center">
+                  <p className="text-muted-foreground">
+                    {t("sidebar.loading")}
+                  </p>
+                </nav>
+              )}
+            </SidebarDropZone>
+          </>
         )}
         {/* <div ref={endRef} className="shrink-0 min-w-[24px] min-h-[24px]" /> */}
       </div>
@@ -0,0 +1,31 @@
+import { cn } from "@/lib/utils";
+import { CheckIcon, LoaderIcon } from "lucide-react";
+
+export function ToolProgress({
+  steps,
+  isDone,
+}: {
+  steps: Array<string>;
+  isDone: boolean;
+}) {
+  if (steps.length === 0) return null;
+
+  return (
+    <ul className="flex flex-col gap-1 text-xs text-muted-foreground">
+      {steps.map((step, index) => {
+        const isComplete = isDone || index < steps.length - 1;
+
+        return (
+          <li key={`${index}-${step}`} className="flex items-center gap-2">
+            {isComplete ? (
+              <CheckIcon size={12} className="text-green-500" />
+            ) : (
+              <LoaderIcon size={12} className="animate-spin" />
+            )}
+            <span className={cn(!isComplete && "text-foreground")}>{step}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
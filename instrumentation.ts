@@ -0,0 +1,9 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { registerTracing } = await import("./lib/trace-exporter");
+    registerTracing();
+
+    const { startReportRunner } = await import("./lib/report-runner");
+    startReportRunner();
+  }
+}
@@ -0,0 +1,204 @@
+import { getCitedResult, stripCitations } from "@/lib/citations";
+import { locales, translate } from "@/lib/locales";
+import { ResponseMessage } from "@/lib/utils";
+import { UIMessage } from "ai";
+
+export type UnsupportedClaim = {
+  kind: "invoice" | "customer" | "amount";
+  value: string;
+};
+
+export type AnswerVerification = {
+  checkedClaims: number;
+  unsupportedClaims: Array<UnsupportedClaim>;
+};
+
+// Matches the invoice formats in the dataset, e.g. J0125013 and FE435-24.
+const INVOICE_PATTERN = /\b(?:[A-Z]{1,3}\d{5,}|[A-Z]{1,3}\d{2,}-\d{2})\b/g;
+// Period labels such as Q12024 or FY2024 look like invoices but are not.
+const PERIOD_LABEL_PATTERN = /^(?:Q[1-4]|H[12]|FY)\d{4}$/;
+const AMOUNT_PATTERN = /RM\s?(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)/gi;
+// Figures in tool result text, only after "RM" or a label such as "Total:",
+// so dates and ids are never read as amounts.
+const RESULT_FIGURE_PATTERN =
+  /(?:RM|[A-Za-z][\w ()]*:)\s*(-?\d{1,3}(?:,\d{3})+(?:\.\d+)?|-?\d+(?:\.\d+)?)\b/g;
+const ISO_DATE_PATTERN = /\d{4}-\d{2}-\d{2}(?:T[\d:.]+Z?)?/g;
+const NUMERIC_PATTERN = /^-?\d{1,3}(?:,\d{3})*(?:\.\d+)?$|^-?\d+(?:\.\d+)?$/;
+// Keys of structured results that hold ids or dates rather than figures.
+const NON_FIGURE_KEY_PATTERN = /id$|date|invoice/i;
+// The customer label in every language answers are written in.
+const CUSTOMER_LABELS = locales.map(({ id }) =>
+  translate(id, "tools.customerLabel")
+);
+// Labels match with either case of their first letter.
+const CUSTOMER_LABEL_PATTERN = CUSTOMER_LABELS.map(
+  (label) =>
+    `[${label[0].toUpperCase()}${label[0].toLowerCase()}]${label.slice(1)}`
+).join("|");
+// A name after "Customer:" ends at the first word that is not capitalised.
+const CUSTOMER_PATTERN = new RegExp(
+  `(?:${CUSTOMER_LABEL_PATTERN})(?: [Nn]ame)?\\**\\s*[:\\-]\\s*\\**([A-Z0-9][\\w&'.()-]*(?: [A-Z0-9&][\\w&'.()-]*)*)`,
+  "g"
+);
+
+const parseNumber = (value: string) => Number(value.replace(/,/g, ""));
+
+function getAnswerText(messages: Array<ResponseMessage>) {
+  return messages
+    .filter((message) => message.role === "assistant")
+    .map((message) =>
+      typeof message.content === "string"
+        ? message.content
+        : message.content
+            .map((part) => (part.type === "text" ? part.text : ""))
+            .join("")
+    )
+    .map(stripCitations)
+    .join("\n");
+}
+
+function getToolResults(
+  messages: Array<ResponseMessage>,
+  history: Array<UIMessage>
+): Array<unknown> {
+  return [
+    ...history.flatMap((message) =>
+      (message.toolInvocations ?? []).flatMap((invocation) =>
+        invocation.state === "result" ? [invocation.result] : []
+      )
+    ),
+    ...messages.flatMap((message) =>
+      message.role === "tool" ? message.content.map((part) => part.result) : []
+    ),
+  ].map(getCitedResult);
+}
+
+const toResultText = (result: unknown) =>
+  typeof result === "string" ? result : JSON.stringify(result);
+
+function getTextFigures(text: string): Array<number> {
+  return Array.from(
+    text.replace(ISO_DATE_PATTERN, "").matchAll(RESULT_FIGURE_PATTERN),
+    ([, figure]) => parseNumber(figure)
+  );
+}
+
+// Numbers in a tool result, leaving out ids, dates and invoice numbers.
+function getResultFigures(result: unknown, key = ""): Array<number> {
+  if (NON_FIGURE_KEY_PATTERN.test(key)) return [];
+  if (typeof result === "number") return [result];
+  if (typeof result === "string") {
+    return NUMERIC_PATTERN.test(result.trim())
+      ? [parseNumber(result.trim())]
+      : getTextFigures(result);
+  }
+  if (Array.isArray(result)) {
+    return result.flatMap((value) => getResultFigures(value));
+  }
+  if (typeof result === "object" && result !== null) {
+    return Object.entries(result).flatMap(([key, value]) =>
+      getResultFigures(value, key)
+    );
+  }
+  return [];
+}
+
+// Customer names written in a markdown table under a "Customer" column.
+function getTableCustomers(text: string): Array<string> {
+  const customers: Array<string> = [];
+  const rows = text.split("\n").filter((line) => line.trim().startsWith("|"));
+  let customerColumn = -1;
+
+  for (const row of rows) {
+    const cells = row
+      .split("|")
+      .slice(1, -1)
+      .map((cell) => cell.replace(/\*/g, "").trim());
+
+    if (cells.every((cell) => /^:?-+:?$/.test(cell))) continue;
+
+    const headerIndex = cells.findIndex((cell) =>
+      CUSTOMER_LABELS.some((label) =>
+        cell.toLowerCase().startsWith(label.toLowerCase())
+      )
+    );
+    if (headerIndex !== -1) {
+      customerColumn = headerIndex;
+      continue;
+    }
+
+    if (customerColumn !== -1 && cells[customerColumn]) {
+      customers.push(cells[customerColumn]);
+    }
+  }
+
+  return customers;
+}
+
+/**
+ * Checks the invoice numbers, customer names and RM amounts in a finished
+ * answer against the tool results it was generated from, and those earlier
+ * in the conversation. Anything that does not appear in a tool result is
+ * reported as unsupported.
+ */
+export function verifyAnswer({
+  messages,
+  history = [],
+}: {
+  messages: Array<ResponseMessage>;
+  history?: Array<UIMessage>;
+}): AnswerVerification {
+  const answer = getAnswerText(messages);
+  const results = getToolResults(messages, history);
+  const toolResults = results.map(toResultText).join("\n");
+  const normalizedResults = toolResults.toLowerCase();
+  const resultNumbers = results.flatMap((result) => getResultFigures(result));
+
+  const claims = new Map<string, UnsupportedClaim & { isSupported: boolean }>();
+  const addClaim = (claim: UnsupportedClaim, isSupported: boolean) => {
+    claims.set(`${claim.kind}:${claim.value}`, { ...claim, isSupported });
+  };
+
+  for (const [invoice] of Array.from(answer.matchAll(INVOICE_PATTERN))) {
+    if (PERIOD_LABEL_PATTERN.test(invoice)) continue;
+
+    addClaim(
+      { kind: "invoice", value: invoice },
+      toolResults.includes(invoice)
+    );
+  }
+
+  for (const [match, amount] of Array.from(answer.matchAll(AMOUNT_PATTERN))) {
+    const value = parseNumber(amount);
+    // Whole numbers in the answer may be rounded from the tool's decimals.
+    const tolerance = amount.includes(".") ? 0.01 : 0.5;
+
+    addClaim(
+      { kind: "amount", value: match.trim() },
+      resultNumbers.some((number) => Math.abs(number - value) <= tolerance)
+    );
+  }
+
+  const customers = [
+    ...Array.from(answer.matchAll(CUSTOMER_PATTERN), ([, name]) => name),
+    ...getTableCustomers(answer),
+  ]
+    .map((name) => name.trim().replace(/[.,:;]+$/, ""))
+    .filter((name) => name !== "" && !/^(unknown|undefined|-)$/i.test(name));
+
+  for (const customer of customers) {
+    addClaim(
+      { kind: "customer", value: customer },
+      normalizedResults.includes(customer.toLowerCase())
+    );
+  }
+
+  const checkedClaims = Array.from(claims.values());
+
+  return {
+    checkedClaims: checkedClaims.length,
+    unsupportedClaims: checkedClaims
+      .filter((claim) => !claim.isSupported)
+      .map(({ kind, value }) => ({ kind, value })),
+  };
+}
@@ -0,0 +1,53 @@
+import prisma from "@/lib/prisma";
+import { createHash, randomBytes } from "crypto";
+
+const API_KEY_PREFIX = "ia_";
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Creates a new random key. Only the hash is stored, so the plain key has to
+ * be shown to the user straight away.
+ */
+export function generateApiKey(): {
+  key: string;
+  keyPrefix: string;
+  keyHash: string;
+} {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+
+  return {
+    key,
+    keyPrefix: key.slice(0, API_KEY_PREFIX.length + 6),
+    keyHash: hashApiKey(key),
+  };
+}
+
+/**
+ * Resolves the user behind an `Authorization: Bearer <key>` header. Returns
+ * null for missing, unknown or revoked keys.
+ */
+export async function authenticateApiKey(
+  request: Request
+): Promise<{ userId: string } | null> {
+  const [scheme, key] = (request.headers.get("authorization") ?? "").split(" ");
+
+  if (scheme?.toLowerCase() !== "bearer" || !key?.startsWith(API_KEY_PREFIX)) {
+    return null;
+  }
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+  });
+
+  if (!apiKey || apiKey.revokedAt) return null;
+
+  await prisma.apiKey.update({
+    where: { id: apiKey.id },
+    data: { lastUsedAt: new Date() },
+  });
+
+  return { userId: apiKey.userId.trim() };
+}
@@ -0,0 +1,29 @@
+import { auth, clerkClient } from "@clerk/nextjs/server";
+
+// Set on the user's private metadata in the Clerk dashboard.
+const ADMIN_ROLE = "Admin";
+
+export async function getSessionUserId(): Promise<string> {
+  const session = await auth();
+
+  if (!session || !session.userId) {
+    throw new Error("Unauthorized");
+  }
+
+  return session.userId.trim();
+}
+
+/**
+ * Returns the session user id, or throws when the user is signed out or is
+ * not an admin. Every service behind the admin pages calls this first.
+ */
+export async function requireAdmin(): Promise<string> {
+  const userId = await getSessionUserId();
+  const user = await (await clerkClient()).users.getUser(userId);
+
+  if (user.privateMetadata.role !== ADMIN_ROLE) {
+    throw new Error("Forbidden");
+  }
+
+  return userId;
+}
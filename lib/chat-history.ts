@@ -0,0 +1,50 @@
+export type ChatDateGroup = "today" | "yesterday" | "previous7Days" | "older";
+
+// What a sidebar chat carries while it is being dragged.
+export type DraggedChat = {
+  chatId: string;
+  isPinned: boolean;
+  folderId: string | null;
+};
+
+export const CHAT_DRAG_TYPE = "application/x-chat";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getDateGroup(date: Date, now: Date): ChatDateGroup {
+  const startOfToday = new Date(
+    now.getFullYear(),
+    now.getMonth(),
+    now.getDate()
+  ).getTime();
+
+  if (date.getTime() >= startOfToday) return "today";
+  if (date.getTime() >= startOfToday - DAY_MS) return "yesterday";
+  if (date.getTime() >= startOfToday - 7 * DAY_MS) return "previous7Days";
+  return "older";
+}
+
+/**
+ * Splits chats that are already sorted by updatedAt, newest first, into the
+ * date groups of the sidebar in the user's time zone. Empty groups are left
+ * out.
+ */
+export function groupChatsByDate<T extends { updatedAt: Date | string }>(
+  chats: Array<T>,
+  now: Date = new Date()
+): Array<{ group: ChatDateGroup; chats: Array<T> }> {
+  const groups: Array<{ group: ChatDateGroup; chats: Array<T> }> = [];
+
+  for (const chat of chats) {
+    const group = getDateGroup(new Date(chat.updatedAt), now);
+    const lastGroup = groups.at(-1);
+
+    if (lastGroup?.group === group) {
+      lastGroup.chats.push(chat);
+    } else {
+      groups.push({ group, chats: [chat] });
+    }
+  }
+
+  return groups;
+}
@@ -0,0 +1,164 @@
+import { generateObject, NoSuchToolError, ToolCallRepairFunction } from "ai";
+import { ZodTypeAny } from "zod";
+
+import { formatISODate } from "@/lib/date-range";
+import { Locale, locales } from "@/lib/locales";
+import {
+  AUTO_CHAT_MODEL,
+  autoChatModelRoutes,
+  citationPrompt,
+  dateContextPrompt,
+  fallbackPrompts,
+  getPromptFamily,
+  languagePrompt,
+  myProvider,
+  renderPrompt,
+} from "@/lib/models";
+import { createToolCallLogger } from "@/lib/tool-call-logger";
+import { repairToolArgs } from "@/lib/tool-repair";
+import { classifyUserQuery } from "@/services/message";
+import { getActivePrompt } from "@/services/prompts";
+import { getSalesDateRange } from "@/services/sales";
+import { toolsMapping } from "@/services/tools";
+
+// Shared by every entry point that answers a question: the chat UI, the
+// OpenAI-compatible API and anything else that runs the model on our data.
+
+const isReasoningModel = (chatModel: string) =>
+  chatModel === "deepseek-r1:70b" || chatModel === "deepseek-r1:7b";
+
+/**
+ * Resolves the "Auto" choice to a concrete model for the user's question.
+ */
+export async function resolveChatModel({
+  selectedChatModel,
+  userQuery,
+}: {
+  selectedChatModel: string;
+  userQuery: string;
+}): Promise<{ chatModel: string; isAutoRouted: boolean }> {
+  const isAutoRouted = selectedChatModel === AUTO_CHAT_MODEL;
+
+  return {
+    chatModel: isAutoRouted
+      ? autoChatModelRoutes[await classifyUserQuery(userQuery)]
+      : selectedChatModel,
+    isAutoRouted,
+  };
+}
+
+export function getActiveTools(chatModel: string): Array<string> {
+  return isReasoningModel(chatModel) ? [] : Object.keys(toolsMapping);
+}
+
+/**
+ * Builds the system prompt from the published prompt for the model's family,
+ * followed by the date context and, for tool-using models, the citation
+ * rules. Callers that do not render citations can leave the rules out. With
+ * a `locale`, the model is also told to reply in that language.
+ */
+export async function getSystemPrompt({
+  chatModel,
+  salesData = "",
+  withCitations = true,
+  locale,
+}: {
+  chatModel: string;
+  salesData?: string;
+  withCitations?: boolean;
+  locale?: Locale;
+}): Promise<{ system: string; promptVersionId: string | null }> {
+  const salesDateRange = await getSalesDateRange();
+  const dateContext = dateContextPrompt({
+    today: formatISODate(new Date()),
+    salesDateRange: salesDateRange && {
+      from: formatISODate(salesDateRange.from),
+      to: formatISODate(salesDateRange.to),
+    },
+  });
+
+  const promptFamily = getPromptFamily(chatModel);
+  const activePrompt = await getActivePrompt({ family: promptFamily });
+
+  const systemPrompt = renderPrompt(
+    activePrompt?.content ?? fallbackPrompts[promptFamily],
+    {
+      tools: Object.keys(toolsMapping).join("\n"),
+      salesData: salesData || "No sales data available",
+    }
+  );
+
+  return {
+    system: `${systemPrompt}\n${dateContext}${
+      withCitations && getActiveTools(chatModel).length > 0
+        ? citationPrompt
+        : ""
+    }${
+      locale
+        ? languagePrompt(
+            locales.find(({ id }) => id === locale)?.englishName ?? locale
+          )
+        : ""
+    }`,
+    promptVersionId: activePrompt?.id ?? null,
+  };
+}
+
+/**
+ * Fixes invalid tool arguments, first by coercing them against the tool's
+ * schema and then by asking a structured-output model. Unknown tools are not
+ * repaired.
+ */
+export function createToolCallRepair({
+  abortSignal,
+  toolCallLogger,
+}: {
+  abortSignal?: AbortSignal;
+  toolCallLogger?: Pick<
+    ReturnType<typeof createToolCallLogger>,
+    "recordRepair"
+  >;
+}): ToolCallRepairFunction<typeof toolsMapping> {
+  return async ({ toolCall, tools, error, parameterSchema }) => {
+    toolCallLogger?.recordRepair({ toolCall, error });
+
+    if (NoSuchToolError.isInstance(error)) {
+      return null;
+    }
+
+    const tool = tools[toolCall.toolName as keyof typeof tools];
+    const parameters = tool.parameters as ZodTypeAny;
+
+    let repairedArgs = repairToolArgs(parameters, toolCall.args);
+
+    if (!repairedArgs) {
+      const { object } = await generateObject({
+        model: myProvider.languageModel("llama3.2-object"),
+        abortSignal,
+        schema: parameters,
+        system: `\n
+            - you will fix the arguments of a tool call
+            - keep the values of the initial arguments
+            - do not invent filters that were not in the initial arguments`,
+        prompt: [
+          `The model tried to call the tool "${toolCall.toolName}"` +
+            ` with the following initial arguments:`,
+          toolCall.args,
+          `The tool accepts the following schema:`,
+          JSON.stringify(parameterSchema(toolCall)),
+          `Please fix the arguments.`,
+        ].join("\n"),
+        experimental_telemetry: {
+          isEnabled: true,
+          functionId: "repair-tool-call",
+        },
+      });
+
+      repairedArgs = object as Record<string, unknown>;
+    }
+
+    toolCallLogger?.recordRepair({ toolCall, error, repairedArgs });
+
+    return { ...toolCall, args: JSON.stringify(repairedArgs) };
+  };
+}
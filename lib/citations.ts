@@ -0,0 +1,150 @@
+import { ToolInvocation } from "ai";
+
+import { mapToolExecute } from "@/lib/tools";
+
+// [cite:<toolCallId>] or [cite:<id>, <id>] as written by the model.
+const CITATION_PATTERN = /\s?\[cite:\s*([\w-]+(?:\s*,\s*[\w-]+)*)\]/g;
+const FIGURE_PATTERN =
+  /[A-Z]{1,3}\d{2,}(?:-\d{2})?|\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/g;
+
+const MAX_RESULT_LINES = 10;
+
+export type CitedToolResult = {
+  toolCallId: string;
+  result: unknown;
+};
+
+export type Citation = {
+  number: number;
+  toolCallId: string;
+  toolName: string;
+  args: unknown;
+  resultLines: Array<string>;
+};
+
+/**
+ * Wraps every tool result with the id of the call that produced it, so the
+ * model can cite the call next to the figures it takes from the result.
+ */
+export function withCitationIds<T extends Record<string, any>>(tools: T): T {
+  return mapToolExecute(tools, (execute) => async (args, options) => {
+    const result = await execute(args, options);
+    return { toolCallId: options.toolCallId, result } satisfies CitedToolResult;
+  });
+}
+
+/**
+ * Returns the tool's own result, for results saved before citations existed
+ * as well as wrapped ones.
+ */
+export function getCitedResult(result: unknown): unknown {
+  if (
+    typeof result === "object" &&
+    result !== null &&
+    "toolCallId" in result &&
+    "result" in result
+  ) {
+    return (result as CitedToolResult).result;
+  }
+
+  return result;
+}
+
+export function stripCitations(text: string): string {
+  return text.replace(CITATION_PATTERN, "");
+}
+
+const parseFigure = (figure: string) => Number(figure.replace(/,/g, ""));
+
+// Result lines that mention one of the figures written before the citation.
+function getRelevantLines(result: unknown, contexts: Array<string>) {
+  const lines = (
+    typeof result === "string" ? result : JSON.stringify(result, null, 2)
+  )
+    .split("\n")
+    .filter((line) => line.trim() !== "");
+
+  const figures = contexts.flatMap((context) => context.match(FIGURE_PATTERN));
+  const matches = lines.filter((line) =>
+    figures.some((figure) => {
+      if (!figure) return false;
+      if (/[A-Z]/.test(figure)) return line.includes(figure);
+
+      const value = parseFigure(figure);
+      return (line.match(FIGURE_PATTERN) ?? []).some(
+        (lineFigure) => Math.abs(parseFigure(lineFigure) - value) <= 0.5
+      );
+    })
+  );
+
+  return (matches.length > 0 ? matches : lines).slice(0, MAX_RESULT_LINES);
+}
+
+/**
+ * Replaces the citation markers in an answer with numbered footnote links
+ * and collects what each footnote shows. Markers for calls that are not in
+ * `toolInvocations` are dropped.
+ */
+export function getCitations({
+  text,
+  toolInvocations,
+}: {
+  text: string;
+  toolInvocations: Array<ToolInvocation>;
+}): { text: string; citations: Array<Citation> } {
+  const citedCalls = new Map<
+    string,
+    { toolInvocation: ToolInvocation; number: number; contexts: string[] }
+  >();
+
+  const citedText = text.replace(
+    CITATION_PATTERN,
+    (marker, ids: string, offset: number) => {
+      const lineStart = text.lastIndexOf("\n", offset) + 1;
+      const sentenceStart = text.lastIndexOf(". ", offset);
+      const context = text.slice(Math.max(lineStart, sentenceStart), offset);
+
+      return ids
+        .split(",")
+        .map((id) => id.trim())
+        .map((id) => {
+          let citedCall = citedCalls.get(id);
+
+          if (!citedCall) {
+            const toolInvocation = toolInvocations.find(
+              (invocation) => invocation.toolCallId === id
+            );
+            if (!toolInvocation) return "";
+
+            citedCall = {
+              toolInvocation,
+              number: citedCalls.size + 1,
+              contexts: [],
+            };
+            citedCalls.set(id, citedCall);
+          }
+
+          citedCall.contexts.push(context);
+          return ` [${citedCall.number}](#cite-${id})`;
+        })
+        .join("");
+    }
+  );
+
+  return {
+    text: citedText,
+    citations: Array.from(
+      citedCalls.values(),
+      ({ toolInvocation, number, contexts }) => ({
+        number,
+        toolCallId: toolInvocation.toolCallId,
+        toolName: toolInvocation.toolName,
+        args: toolInvocation.args,
+        resultLines:
+          toolInvocation.state === "result"
+            ? getRelevantLines(getCitedResult(toolInvocation.result), contexts)
+            : [],
+      })
+    ),
+  };
+}
@@ -0,0 +1,180 @@
+type CronField = {
+  values: Set<number>;
+  isWildcard: boolean;
+};
+
+type CronSchedule = {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+};
+
+const ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+};
+
+const MONTH_NAMES = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// Malaysia has no daylight saving, so a fixed offset is enough.
+export const DEFAULT_UTC_OFFSET_MINUTES = Number(
+  process.env.REPORT_UTC_OFFSET_MINUTES || 8 * 60
+);
+
+const MINUTE_MS = 60 * 1000;
+// Far enough for any valid expression, including February 29th.
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * MINUTE_MS;
+
+export class InvalidCronError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Invalid cron expression "${expression}": ${reason}`);
+    this.name = "InvalidCronError";
+  }
+}
+
+function parseValue(value: string, names?: string[], offset = 0) {
+  const nameIndex = names?.indexOf(value.toLowerCase()) ?? -1;
+  return nameIndex !== -1 ? nameIndex + offset : Number(value);
+}
+
+function parseField(
+  expression: string,
+  field: string,
+  min: number,
+  max: number,
+  names?: string[],
+  nameOffset = 0
+): CronField {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+
+    let start = min;
+    let end = max;
+
+    if (range !== "*") {
+      const [startText, endText] = range.split("-");
+      start = parseValue(startText, names, nameOffset);
+      end =
+        endText === undefined
+          ? stepText === undefined
+            ? start
+            : max
+          : parseValue(endText, names, nameOffset);
+    }
+
+    if (
+      [start, end, step].some((value) => !Number.isInteger(value)) ||
+      start < min ||
+      end > max ||
+      start > end ||
+      step < 1
+    ) {
+      throw new InvalidCronError(expression, `"${part}" is out of range`);
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return { values, isWildcard: field === "*" };
+}
+
+/**
+ * Parses a standard five-field cron expression (minute, hour, day of month,
+ * month, day of week) or one of the @hourly/@daily/@weekly/@monthly/@yearly
+ * shortcuts.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = (ALIASES[expression.trim()] ?? expression).trim().split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new InvalidCronError(expression, "expected 5 fields");
+  }
+
+  const dayOfWeek = parseField(expression, fields[4], 0, 7, DAY_NAMES);
+  // Both 0 and 7 mean Sunday.
+  if (dayOfWeek.values.delete(7)) dayOfWeek.values.add(0);
+
+  return {
+    minute: parseField(expression, fields[0], 0, 59),
+    hour: parseField(expression, fields[1], 0, 23),
+    dayOfMonth: parseField(expression, fields[2], 1, 31),
+    month: parseField(expression, fields[3], 1, 12, MONTH_NAMES, 1),
+    dayOfWeek,
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date) {
+  const dayOfMonth = schedule.dayOfMonth.values.has(date.getUTCDate());
+  const dayOfWeek = schedule.dayOfWeek.values.has(date.getUTCDay());
+
+  // When both day fields are restricted, cron runs on either.
+  if (!schedule.dayOfMonth.isWildcard && !schedule.dayOfWeek.isWildcard) {
+    return dayOfMonth || dayOfWeek;
+  }
+
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Returns the first time after `after` that matches the expression, with the
+ * expression read in the reports' time zone.
+ */
+export function getNextCronRun(
+  expression: string,
+  after: Date = new Date(),
+  utcOffsetMinutes: number = DEFAULT_UTC_OFFSET_MINUTES
+): Date {
+  const schedule = parseCron(expression);
+  const offsetMs = utcOffsetMinutes * MINUTE_MS;
+
+  // Work on a shifted date so the UTC getters return local wall-clock time.
+  const start = after.getTime() + offsetMs;
+  const date = new Date(start - (start % MINUTE_MS) + MINUTE_MS);
+
+  while (date.getTime() - start < MAX_SEARCH_MS) {
+    if (!schedule.month.values.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!schedule.hour.values.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!schedule.minute.values.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+      continue;
+    }
+
+    return new Date(date.getTime() - offsetMs);
+  }
+
+  throw new InvalidCronError(expression, "it never matches");
+}
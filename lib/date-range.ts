@@ -0,0 +1,290 @@
+import { DEFAULT_UTC_OFFSET_MINUTES } from "@/lib/cron";
+
+export type DateRange = {
+  startDate: string;
+  endDate: string;
+};
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+// Holidays whose date moves every year, keyed by year as "MM-DD". Add the next
+// years from the gazetted calendar, other years fail with an error.
+const MOVING_HOLIDAYS: Record<string, Record<number, string>> = {
+  raya: {
+    2022: "05-02",
+    2023: "04-22",
+    2024: "04-10",
+    2025: "03-31",
+    2026: "03-20",
+    2027: "03-10",
+  },
+  cny: {
+    2022: "02-01",
+    2023: "01-22",
+    2024: "02-10",
+    2025: "01-29",
+    2026: "02-17",
+    2027: "02-06",
+  },
+  deepavali: {
+    2022: "10-24",
+    2023: "11-12",
+    2024: "10-31",
+    2025: "10-20",
+    2026: "11-08",
+    2027: "10-28",
+  },
+};
+
+const FIXED_HOLIDAYS: Record<string, string> = {
+  "new year": "01-01",
+  merdeka: "08-31",
+  "malaysia day": "09-16",
+  christmas: "12-25",
+};
+
+const HOLIDAY_ALIASES: Record<string, string> = {
+  "hari raya": "raya",
+  "hari raya aidilfitri": "raya",
+  aidilfitri: "raya",
+  "chinese new year": "cny",
+  "lunar new year": "cny",
+  diwali: "deepavali",
+  "merdeka day": "merdeka",
+  "national day": "merdeka",
+  "new year's day": "new year",
+  "new years": "new year",
+  xmas: "christmas",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const utcDate = (year: number, month: number, day: number) =>
+  new Date(Date.UTC(year, month, day));
+
+const startOfDay = (date: Date) =>
+  utcDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getTime() + days * DAY_MS);
+
+const toRange = (start: Date, end: Date): DateRange => ({
+  startDate: startOfDay(start).toISOString(),
+  endDate: new Date(startOfDay(end).getTime() + DAY_MS - 1).toISOString(),
+});
+
+const monthRange = (year: number, month: number) =>
+  toRange(utcDate(year, month, 1), utcDate(year, month + 1, 0));
+
+const quarterRange = (year: number, quarter: number) =>
+  toRange(utcDate(year, (quarter - 1) * 3, 1), utcDate(year, quarter * 3, 0));
+
+const yearRange = (year: number) =>
+  toRange(utcDate(year, 0, 1), utcDate(year, 11, 31));
+
+function parseYear(text: string | undefined, today: Date): number | null {
+  const currentYear = today.getUTCFullYear();
+
+  if (!text || text === "this year") return null;
+  if (text === "last year" || text === "previous year") return currentYear - 1;
+  if (text === "next year") return currentYear + 1;
+  if (/^\d{4}$/.test(text)) return Number(text);
+
+  return NaN;
+}
+
+function parseHoliday(name: string, year: number | null, today: Date) {
+  const key = HOLIDAY_ALIASES[name] ?? name;
+  const currentYear = today.getUTCFullYear();
+
+  if (!(key in FIXED_HOLIDAYS) && !(key in MOVING_HOLIDAYS)) return null;
+
+  const getDate = (forYear: number) => {
+    const monthDay = FIXED_HOLIDAYS[key] ?? MOVING_HOLIDAYS[key][forYear];
+
+    if (!monthDay) {
+      throw new Error(
+        `The date of ${name} in ${forYear} is not known, use ISO dates instead`
+      );
+    }
+
+    return new Date(`${forYear}-${monthDay}T00:00:00.000Z`);
+  };
+
+  if (year !== null) {
+    const date = getDate(year);
+    return toRange(date, date);
+  }
+
+  // Without a year, use the most recent occurrence up to today.
+  const thisYear = getDate(currentYear);
+  const date =
+    thisYear <= startOfDay(today) ? thisYear : getDate(currentYear - 1);
+
+  return toRange(date, date);
+}
+
+function parseSingle(text: string, today: Date): DateRange | null {
+  const currentYear = today.getUTCFullYear();
+  const currentMonth = today.getUTCMonth();
+  const currentQuarter = Math.floor(currentMonth / 3) + 1;
+  const day = startOfDay(today);
+
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    const date = new Date(text);
+    return Number.isNaN(date.getTime()) ? null : toRange(date, date);
+  }
+
+  if (text === "today") return toRange(day, day);
+  if (text === "yesterday") return toRange(addDays(day, -1), addDays(day, -1));
+
+  if (["ytd", "year to date", "this year so far"].includes(text)) {
+    return toRange(utcDate(currentYear, 0, 1), day);
+  }
+  if (["mtd", "month to date", "this month so far"].includes(text)) {
+    return toRange(utcDate(currentYear, currentMonth, 1), day);
+  }
+
+  let match = text.match(/^(this|last|previous) (week|month|quarter|year)$/);
+  if (match) {
+    const offset = match[1] === "this" ? 0 : -1;
+
+    switch (match[2]) {
+      case "week": {
+        // Weeks start on Monday.
+        const monday = addDays(day, -((day.getUTCDay() + 6) % 7) + offset * 7);
+        return toRange(monday, addDays(monday, 6));
+      }
+      case "month":
+        return monthRange(currentYear, currentMonth + offset);
+      case "quarter": {
+        const quarterIndex = currentQuarter - 1 + offset;
+        const year = currentYear + Math.floor(quarterIndex / 4);
+        return quarterRange(year, (((quarterIndex % 4) + 4) % 4) + 1);
+      }
+      case "year":
+        return yearRange(currentYear + offset);
+    }
+  }
+
+  match = text.match(/^(?:last|past|previous) (\d+) (day|week|month|year)s?$/);
+  if (match) {
+    const amount = Number(match[1]);
+    const start =
+      match[2] === "day"
+        ? addDays(day, -amount + 1)
+        : match[2] === "week"
+          ? addDays(day, -amount * 7 + 1)
+          : match[2] === "month"
+            ? utcDate(currentYear, currentMonth - amount, day.getUTCDate() + 1)
+            : utcDate(currentYear - amount, currentMonth, day.getUTCDate() + 1);
+    return toRange(start, day);
+  }
+
+  match = text.match(
+    /^(?:q([1-4])|(first|second|third|fourth) quarter)(?: of)?(?: (.+))?$/
+  );
+  if (match) {
+    const quarter = match[1]
+      ? Number(match[1])
+      : ["first", "second", "third", "fourth"].indexOf(match[2]) + 1;
+    const year = parseYear(match[3], today);
+    if (Number.isNaN(year)) return null;
+    return quarterRange(year ?? currentYear, quarter);
+  }
+
+  match = text.match(/^([a-z]+)(?: of)?(?: (.+))?$/);
+  if (match) {
+    const month = MONTHS.findIndex(
+      (name) => name === match![1] || name.slice(0, 3) === match![1]
+    );
+
+    if (month !== -1) {
+      const year = parseYear(match[2], today);
+      if (Number.isNaN(year)) return null;
+      // A bare month means its most recent occurrence.
+      if (year === null && match[2] === undefined && month > currentMonth) {
+        return monthRange(currentYear - 1, month);
+      }
+      return monthRange(year ?? currentYear, month);
+    }
+  }
+
+  if (/^\d{4}$/.test(text)) return yearRange(Number(text));
+
+  match = text.match(/^(.+?)(?: (\d{4}|this year|last year))?$/);
+  if (match) {
+    const year = parseYear(match[2], today);
+    if (!Number.isNaN(year)) {
+      const holiday = parseHoliday(match[1], year, today);
+      if (holiday) return holiday;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Turns phrases such as "last month", "Q1 this year", "since Raya" or
+ * "Jan 2024 to Mar 2024" into an inclusive UTC range. Relative phrases are
+ * read from the current date in the reports' time zone. Returns null when the
+ * phrase is not understood, so callers can ask for ISO dates instead.
+ */
+export function parseDateRange(
+  text: string,
+  now: Date = new Date(),
+  utcOffsetMinutes: number = DEFAULT_UTC_OFFSET_MINUTES
+): DateRange | null {
+  // Shifted so the UTC getters return the local date.
+  const today = new Date(now.getTime() + utcOffsetMinutes * 60 * 1000);
+  const normalized = text
+    .toLowerCase()
+    .replace(/[’]/g, "'")
+    .replace(/\s+/g, " ")
+    .replace(/^(in|during|for|over|from) (the )?/, "")
+    .trim();
+
+  if (normalized === "") return null;
+
+  const since = normalized.match(/^(?:since|after) (.+)$/);
+  if (since) {
+    const start = parseSingle(since[1], today);
+    return start ? toRange(new Date(start.startDate), today) : null;
+  }
+
+  const between = normalized.match(
+    /^(.+?) (?:to|until|till|through|and) (.+)$/
+  );
+  if (between) {
+    const start = parseSingle(between[1].replace(/^between /, ""), today);
+    const end =
+      between[2] === "now" || between[2] === "today"
+        ? toRange(today, today)
+        : parseSingle(between[2], today);
+    return start && end
+      ? { startDate: start.startDate, endDate: end.endDate }
+      : null;
+  }
+
+  return parseSingle(normalized, today);
+}
+
+/**
+ * Formats a date as YYYY-MM-DD for prompts and tool output.
+ */
+export function formatISODate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
@@ -0,0 +1,203 @@
+import { formatISODate } from "@/lib/date-range";
+import prisma from "@/lib/prisma";
+import { getSalesDateRange } from "@/services/sales";
+
+export type GoldenQuestion = {
+  id: string;
+  question: string;
+  expectedTool: string;
+  // Arguments the expected tool call must have. startDate and endDate are
+  // compared after resolving the call's dateRange, like the tools do.
+  expectedArgs: Record<string, string>;
+  expectedValue: number;
+  // Text the answer must also mention, e.g. the name of the top customer.
+  expectedText?: string;
+};
+
+const monthLabel = (date: Date) =>
+  date.toLocaleString("en-US", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+const purchaseDateFilter = (startDate: string, endDate: string) => ({
+  purchaseDate: { gte: new Date(startDate), lte: new Date(endDate) },
+});
+
+/**
+ * Builds the golden questions from the sales table. Periods are anchored on
+ * the latest month and year with data, so the set works on any import, and
+ * every expected value is computed directly with Prisma rather than through
+ * the tools being evaluated.
+ */
+export async function getGoldenQuestions(): Promise<GoldenQuestion[]> {
+  const salesDateRange = await getSalesDateRange();
+
+  if (!salesDateRange) return [];
+
+  const latest = salesDateRange.to;
+  const year = latest.getUTCFullYear();
+  const month = latest.getUTCMonth();
+
+  const monthStart = formatISODate(new Date(Date.UTC(year, month, 1)));
+  const monthEnd = formatISODate(new Date(Date.UTC(year, month + 1, 0)));
+  const yearStart = `${year}-01-01`;
+  const yearEnd = `${year}-12-31`;
+  const monthFilter = purchaseDateFilter(monthStart, monthEnd);
+  const yearFilter = purchaseDateFilter(yearStart, yearEnd);
+
+  const [
+    monthAggregate,
+    yearAggregate,
+    [topPaymentMethod],
+    [topCustomer],
+    [topItem],
+    latestSale,
+  ] = await Promise.all([
+    prisma.sales.aggregate({
+      where: monthFilter,
+      _sum: { total: true },
+      _avg: { total: true },
+      _count: { _all: true },
+    }),
+    prisma.sales.aggregate({ where: yearFilter, _sum: { total: true } }),
+    prisma.sales.groupBy({
+      by: ["paymentMethod"],
+      where: yearFilter,
+      _sum: { total: true },
+      orderBy: { _count: { paymentMethod: "desc" } },
+      take: 1,
+    }),
+    prisma.sales.groupBy({
+      by: ["customer"],
+      where: yearFilter,
+      _sum: { total: true },
+      orderBy: { _sum: { total: "desc" } },
+      take: 1,
+    }),
+    prisma.sales.groupBy({
+      by: ["item"],
+      where: yearFilter,
+      _sum: { quantity: true },
+      orderBy: { _sum: { quantity: "desc" } },
+      take: 1,
+    }),
+    prisma.sales.findFirst({ orderBy: { purchaseDate: "desc" } }),
+  ]);
+
+  const questions: GoldenQuestion[] = [
+    {
+      id: "total-sales-month",
+      question: `What were the total sales in ${monthLabel(latest)}?`,
+      expectedTool: "getSalesAnalytics",
+      expectedArgs: {
+        operation: "ANALYTICS",
+        analyticsType: "TOTAL_SALES",
+        startDate: monthStart,
+        endDate: monthEnd,
+      },
+      expectedValue: monthAggregate._sum.total ?? 0,
+    },
+    {
+      id: "sales-count-month",
+      question: `How many sales were made in ${monthLabel(latest)}?`,
+      expectedTool: "getSalesAnalytics",
+      expectedArgs: {
+        operation: "ANALYTICS",
+        analyticsType: "SALES_COUNT",
+        startDate: monthStart,
+        endDate: monthEnd,
+      },
+      expectedValue: monthAggregate._count._all,
+    },
+    {
+      id: "average-sale-month",
+      question: `What was the average sale value in ${monthLabel(latest)}?`,
+      expectedTool: "getSalesAnalytics",
+      expectedArgs: {
+        operation: "ANALYTICS",
+        analyticsType: "AVERAGE_SALES",
+        startDate: monthStart,
+        endDate: monthEnd,
+      },
+      expectedValue: monthAggregate._avg.total ?? 0,
+    },
+    {
+      id: "total-sales-year",
+      question: `What were the total sales in ${year}?`,
+      expectedTool: "getSalesAnalytics",
+      expectedArgs: {
+        operation: "ANALYTICS",
+        analyticsType: "TOTAL_SALES",
+        startDate: yearStart,
+        endDate: yearEnd,
+      },
+      expectedValue: yearAggregate._sum.total ?? 0,
+    },
+  ];
+
+  if (topPaymentMethod) {
+    questions.push({
+      id: "payment-method-total-year",
+      question: `How much did we sell through ${topPaymentMethod.paymentMethod} in ${year}?`,
+      expectedTool: "getSalesAnalytics",
+      expectedArgs: {
+        operation: "ANALYTICS",
+        analyticsType: "TOTAL_SALES",
+        paymentMethod: topPaymentMethod.paymentMethod,
+        startDate: yearStart,
+        endDate: yearEnd,
+      },
+      expectedValue: topPaymentMethod._sum.total ?? 0,
+    });
+  }
+
+  if (topCustomer) {
+    questions.push({
+      id: "top-customer-year",
+      question: `Which customer spent the most in ${year}, and how much did they spend?`,
+      expectedTool: "getTopAggregates",
+      expectedArgs: {
+        groupBy: "CUSTOMER",
+        startDate: yearStart,
+        endDate: yearEnd,
+      },
+      expectedValue: topCustomer._sum.total ?? 0,
+      expectedText: topCustomer.customer,
+    });
+  }
+
+  if (topItem) {
+    questions.push({
+      id: "top-item-quantity-year",
+      question: `Which item sold the most units in ${year}, and how many units?`,
+      expectedTool: "getTopAggregates",
+      expectedArgs: {
+        groupBy: "ITEM",
+        sortBy: "QUANTITY",
+        startDate: yearStart,
+        endDate: yearEnd,
+      },
+      expectedValue: topItem._sum.quantity ?? 0,
+      expectedText: topItem.item,
+    });
+  }
+
+  if (latestSale) {
+    const invoiceAggregate = await prisma.sales.aggregate({
+      where: { invoice: latestSale.invoice },
+      _sum: { total: true },
+    });
+
+    questions.push({
+      id: "invoice-total",
+      question: `What is the total amount of invoice ${latestSale.invoice}?`,
+      expectedTool: "getInvoiceDetails",
+      expectedArgs: { invoice: latestSale.invoice },
+      expectedValue: invoiceAggregate._sum.total ?? 0,
+    });
+  }
+
+  return questions;
+}
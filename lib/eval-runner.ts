@@ -0,0 +1,304 @@
+import { generateText } from "ai";
+
+import {
+  createToolCallRepair,
+  getActiveTools,
+  getSystemPrompt,
+  resolveChatModel,
+} from "@/lib/chat-pipeline";
+import { stripCitations, withCitationIds } from "@/lib/citations";
+import { GoldenQuestion, getGoldenQuestions } from "@/lib/eval-questions";
+import { chatModels, myProvider } from "@/lib/models";
+import prisma from "@/lib/prisma";
+import { acquireModelSlot } from "@/lib/request-queue";
+import { resolveDateFilters, toolsMapping } from "@/services/tools";
+import { EvalResult, EvalRun, Prisma } from "@prisma/client";
+
+// A question that takes longer than this is scored as failed.
+const MAX_QUESTION_MS = 5 * 60 * 1000;
+// Answers round amounts, so allow 0.1% either way.
+const NUMERIC_TOLERANCE = 0.001;
+const NUMBER_PATTERN = /\d[\d,]*(?:\.\d+)?/g;
+
+type EvalToolCall = {
+  toolName: string;
+  args: Record<string, unknown>;
+};
+
+type EvalScores = {
+  toolScore: number;
+  argsScore: number;
+  numericScore: number;
+  score: number;
+};
+
+export type EvalModelSummary = EvalScores & {
+  model: string;
+  questions: number;
+  errors: number;
+};
+
+const evalRunnerSingleton = () => {
+  return {
+    isRunning: false,
+  };
+};
+
+declare const globalThis: {
+  evalRunnerGlobal: ReturnType<typeof evalRunnerSingleton>;
+} & typeof global;
+
+const evalRunner = (globalThis.evalRunnerGlobal ??= evalRunnerSingleton());
+
+const normalize = (value: unknown) => String(value).trim().toLowerCase();
+
+const average = (values: Array<number>) =>
+  values.length === 0
+    ? 0
+    : values.reduce((total, value) => total + value, 0) / values.length;
+
+function isClose(value: number, expected: number) {
+  return (
+    Math.abs(value - expected) <=
+    Math.max(0.01, Math.abs(expected) * NUMERIC_TOLERANCE)
+  );
+}
+
+function scoreArgs(
+  expectedArgs: GoldenQuestion["expectedArgs"],
+  args: EvalToolCall["args"]
+) {
+  const keys = Object.keys(expectedArgs);
+  if (keys.length === 0) return 1;
+
+  const { startDate, endDate } = resolveDateFilters(args);
+  const actualArgs: Record<string, unknown> = { ...args, startDate, endDate };
+
+  const matches = keys.filter((key) => {
+    const value = actualArgs[key];
+    if (value === null || value === undefined) return false;
+
+    return key === "startDate" || key === "endDate"
+      ? String(value).slice(0, 10) === expectedArgs[key]
+      : normalize(value) === normalize(expectedArgs[key]);
+  });
+
+  return matches.length / keys.length;
+}
+
+/**
+ * Scores an answer from 0 to 1 on whether the expected tool was called, how
+ * many of the expected arguments it was called with, and whether the answer
+ * states the expected figure (and name, when there is one).
+ */
+export function scoreEvalAnswer({
+  question,
+  toolCalls,
+  answer,
+}: {
+  question: GoldenQuestion;
+  toolCalls: Array<EvalToolCall>;
+  answer: string;
+}): EvalScores {
+  const expectedCalls = toolCalls.filter(
+    (toolCall) => toolCall.toolName === question.expectedTool
+  );
+  const toolScore = expectedCalls.length > 0 ? 1 : 0;
+  // Models sometimes retry with better arguments, so the best call counts.
+  const argsScore = Math.max(
+    0,
+    ...expectedCalls.map((toolCall) =>
+      scoreArgs(question.expectedArgs, toolCall.args)
+    )
+  );
+
+  const numbers = Array.from(answer.matchAll(NUMBER_PATTERN), (match) =>
+    Number(match[0].replace(/,/g, ""))
+  );
+  const hasValue = numbers.some((value) =>
+    isClose(value, question.expectedValue)
+  );
+  const numericScore = question.expectedText
+    ? (Number(hasValue) +
+        Number(normalize(answer).includes(normalize(question.expectedText)))) /
+      2
+    : Number(hasValue);
+
+  return {
+    toolScore,
+    argsScore,
+    numericScore,
+    score: (toolScore + argsScore + numericScore) / 3,
+  };
+}
+
+async function runEvalQuestion({
+  runId,
+  question,
+  model,
+}: {
+  runId: string;
+  question: GoldenQuestion;
+  model: string;
+}): Promise<EvalResult> {
+  const startedAt = Date.now();
+  const abortSignal = AbortSignal.timeout(MAX_QUESTION_MS);
+
+  let resolvedModel: string | null = null;
+  let promptVersionId: string | null = null;
+  let toolCalls: Array<EvalToolCall> = [];
+  let answer: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const { chatModel } = await resolveChatModel({
+      selectedChatModel: model,
+      userQuery: question.question,
+    });
+    const systemPrompt = await getSystemPrompt({ chatModel });
+
+    resolvedModel = chatModel;
+    promptVersionId = systemPrompt.promptVersionId;
+
+    const releaseModelSlot = await acquireModelSlot({
+      model: chatModel,
+      abortSignal,
+      onPositionChange: () => {},
+    });
+
+    try {
+      const result = await generateText({
+        model: myProvider.languageModel(chatModel),
+        system: systemPrompt.system,
+        messages: [{ role: "user", content: question.question }],
+        maxSteps: 5,
+        abortSignal,
+        experimental_activeTools: getActiveTools(chatModel),
+        tools: withCitationIds(toolsMapping),
+        experimental_repairToolCall: createToolCallRepair({ abortSignal }),
+      });
+
+      toolCalls = result.steps.flatMap((step) =>
+        step.toolCalls.map(({ toolName, args }) => ({
+          toolName,
+          args: args as Record<string, unknown>,
+        }))
+      );
+      answer = stripCitations(result.text);
+    } finally {
+      releaseModelSlot();
+    }
+  } catch (cause) {
+    error = cause instanceof Error ? cause.message : String(cause);
+  }
+
+  const scores = scoreEvalAnswer({
+    question,
+    toolCalls,
+    answer: answer ?? "",
+  });
+
+  return await prisma.evalResult.create({
+    data: {
+      runId,
+      questionId: question.id,
+      question: question.question,
+      model,
+      resolvedModel,
+      promptVersionId,
+      expectedTool: question.expectedTool,
+      expectedArgs: question.expectedArgs,
+      expectedValue: question.expectedValue,
+      toolCalls: toolCalls as Prisma.InputJsonArray,
+      answer,
+      ...scores,
+      error,
+      durationMs: Date.now() - startedAt,
+    },
+  });
+}
+
+/**
+ * Asks every golden question to each model through the same prompt, tools
+ * and queue as the chat UI, storing a scored result per question and model.
+ * Defaults to every model in the model selector. `onStart` is called once
+ * the run is saved, before any question is asked.
+ */
+export async function runEval({
+  models = chatModels.map((chatModel) => chatModel.id),
+  onStart,
+  onResult,
+}: {
+  models?: Array<string>;
+  onStart?: (run: EvalRun) => void;
+  onResult?: (result: EvalResult) => void;
+} = {}): Promise<EvalRun> {
+  const unknownModels = models.filter(
+    (model) => !chatModels.some((chatModel) => chatModel.id === model)
+  );
+
+  if (unknownModels.length > 0) {
+    throw new Error(`Unknown models: ${unknownModels.join(", ")}`);
+  }
+
+  if (evalRunner.isRunning) {
+    throw new Error("An eval run is already in progress");
+  }
+
+  evalRunner.isRunning = true;
+
+  try {
+    const run = await prisma.evalRun.create({ data: { models } });
+    onStart?.(run);
+
+    try {
+      const questions = await getGoldenQuestions();
+
+      for (const model of models) {
+        for (const question of questions) {
+          onResult?.(await runEvalQuestion({ runId: run.id, question, model }));
+        }
+      }
+
+      return await prisma.evalRun.update({
+        where: { id: run.id },
+        data: { status: "COMPLETED", finishedAt: new Date() },
+      });
+    } catch (error) {
+      await prisma.evalRun.update({
+        where: { id: run.id },
+        data: {
+          status: "FAILED",
+          error: error instanceof Error ? error.message : String(error),
+          finishedAt: new Date(),
+        },
+      });
+      throw error;
+    }
+  } finally {
+    evalRunner.isRunning = false;
+  }
+}
+
+/**
+ * Averages a run's scores per model, in the order the models were run.
+ */
+export function summarizeEvalResults(
+  results: Array<EvalResult>
+): Array<EvalModelSummary> {
+  const models = Array.from(new Set(results.map((result) => result.model)));
+
+  return models.map((model) => {
+    const modelResults = results.filter((result) => result.model === model);
+
+    return {
+      model,
+      questions: modelResults.length,
+      errors: modelResults.filter((result) => result.error !== null).length,
+      toolScore: average(modelResults.map((result) => result.toolScore)),
+      argsScore: average(modelResults.map((result) => result.argsScore)),
+      numericScore: average(modelResults.map((result) => result.numericScore)),
+      score: average(modelResults.map((result) => result.score)),
+    };
+  });
+}
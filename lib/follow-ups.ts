@@ -0,0 +1,24 @@
+import prisma from "@/lib/prisma";
+
+/**
+ * Stores the follow-up questions on an assistant message once they are
+ * generated. Kept out of the server actions, the chat route is the only
+ * caller and has already checked who owns the chat.
+ */
+export async function updateMessageFollowUpQuestions({
+  id,
+  followUpQuestions,
+}: {
+  id: string;
+  followUpQuestions: Array<string>;
+}): Promise<void> {
+  try {
+    await prisma.message.update({
+      where: { id },
+      data: { followUpQuestions },
+    });
+  } catch (error) {
+    console.error("Failed to update follow-up questions in database", error);
+    throw error;
+  }
+}
@@ -1,8 +1,13 @@
+import type { ChatHistoryPage, ChatHistorySection } from "@/services/chat";
+import { useEffect, useRef } from "react";
+import useSWRInfinite from "swr/infinite";
 import { useLocalStorage } from "usehooks-ts";
+import { fetcher } from "./utils";
+import { useGeneralStore } from "./zustand";
 
 export const useStartTime = (): [
   number | null,
-  (value: number | null) => void
+  (value: number | null) => void,
 ] => {
   const [startTime, setStartTime, _] = useLocalStorage<number | null>(
     "startTime",
@@ -10,3 +15,49 @@ export const useStartTime = (): [
   );
   return [startTime, setStartTime];
 };
+
+/**
+ * Loads a section of the sidebar one page at a time, reloading the pages
+ * already shown whenever refreshHistory() is called.
+ */
+export const useChatHistory = ({
+  section,
+  folderId,
+  isEnabled = true,
+}: {
+  section: ChatHistorySection;
+  folderId?: string;
+  isEnabled?: boolean;
+}) => {
+  const { historyRevision } = useGeneralStore();
+  const { data, size, setSize, isLoading, isValidating, mutate } =
+    useSWRInfinite<ChatHistoryPage>((pageIndex, previousPage) => {
+      if (!isEnabled) return null;
+      if (previousPage && !previousPage.nextCursor) return null;
+
+      const params = new URLSearchParams({ section });
+      if (folderId) params.set("folderId", folderId);
+      if (previousPage?.nextCursor) {
+        params.set("cursor", previousPage.nextCursor);
+      }
+
+      return `/api/history?${params}`;
+    }, fetcher);
+
+  const revisionRef = useRef(historyRevision);
+
+  useEffect(() => {
+    if (revisionRef.current === historyRevision) return;
+
+    revisionRef.current = historyRevision;
+    mutate();
+  }, [historyRevision, mutate]);
+
+  return {
+    chats: data?.flatMap((page) => page.chats) ?? [],
+    hasMore: Boolean(data?.at(-1)?.nextCursor),
+    isLoading,
+    isLoadingMore: isValidating && size > (data?.length ?? 0),
+    loadMore: () => setSize(size + 1),
+  };
+};
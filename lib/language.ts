@@ -0,0 +1,142 @@
+import { Locale } from "@/lib/locales";
+
+// Common words that only show up in one of the two languages. Sales terms
+// are included because staff often write short questions like "jualan bulan
+// lepas" with no other words to go on.
+const malayWords = new Set([
+  "ada",
+  "adakah",
+  "adalah",
+  "anda",
+  "apa",
+  "apakah",
+  "bagaimana",
+  "bagi",
+  "banyak",
+  "barang",
+  "barangan",
+  "bayaran",
+  "berapa",
+  "berapakah",
+  "berbanding",
+  "berikan",
+  "bila",
+  "bilangan",
+  "boleh",
+  "bulan",
+  "dalam",
+  "dan",
+  "daripada",
+  "dari",
+  "dengan",
+  "di",
+  "hari",
+  "ialah",
+  "ini",
+  "itu",
+  "jualan",
+  "jumlah",
+  "kaedah",
+  "kawasan",
+  "ke",
+  "keseluruhan",
+  "kenapa",
+  "kepada",
+  "kita",
+  "lepas",
+  "mana",
+  "mengapa",
+  "mengikut",
+  "minggu",
+  "negeri",
+  "paling",
+  "pada",
+  "pelanggan",
+  "pembayaran",
+  "purata",
+  "saya",
+  "semalam",
+  "semua",
+  "senaraikan",
+  "sila",
+  "siapa",
+  "siapakah",
+  "sudah",
+  "tahun",
+  "tak",
+  "terjual",
+  "terlaris",
+  "tertinggi",
+  "tidak",
+  "tolong",
+  "tunjukkan",
+  "untuk",
+  "yang",
+]);
+
+const englishWords = new Set([
+  "and",
+  "are",
+  "average",
+  "best",
+  "by",
+  "can",
+  "compare",
+  "customer",
+  "customers",
+  "day",
+  "did",
+  "do",
+  "does",
+  "for",
+  "from",
+  "give",
+  "how",
+  "in",
+  "is",
+  "items",
+  "last",
+  "list",
+  "many",
+  "me",
+  "method",
+  "month",
+  "most",
+  "much",
+  "my",
+  "of",
+  "on",
+  "please",
+  "sales",
+  "show",
+  "sold",
+  "the",
+  "this",
+  "to",
+  "top",
+  "total",
+  "was",
+  "week",
+  "were",
+  "what",
+  "which",
+  "who",
+  "with",
+  "year",
+  "you",
+]);
+
+/**
+ * Guesses whether a message is written in English or Malay from the common
+ * words in it. Returns null when there is nothing to go on, e.g. for a bare
+ * invoice number, so the caller can fall back to the user's preference.
+ */
+export function detectLocale(text: string): Locale | null {
+  const words = text.toLowerCase().match(/[a-z]+/g) ?? [];
+  const malayCount = words.filter((word) => malayWords.has(word)).length;
+  const englishCount = words.filter((word) => englishWords.has(word)).length;
+
+  if (malayCount === englishCount) return null;
+
+  return malayCount > englishCount ? "ms" : "en";
+}
@@ -0,0 +1,457 @@
+// UI and tool-result strings per language. English is the source, every other
+// locale must translate every key. `{name}` placeholders are filled by
+// `translate`.
+
+export type Locale = "en" | "ms";
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const locales: Array<{
+  id: Locale;
+  name: string;
+  // Used in prompts, which are written in English.
+  englishName: string;
+}> = [
+  { id: "en", name: "English", englishName: "English" },
+  { id: "ms", name: "Bahasa Malaysia", englishName: "Malay (Bahasa Malaysia)" },
+];
+
+const en = {
+  // Chat
+  "chat.greeting": "Hi! I am {name}. How can I help you today?",
+  "chat.error": "An error occurred, please try again! {error}",
+  "chat.sharedBy": "Shared by {name} · Read-only",
+  "chat.thinking": "Thinking...",
+  "chat.queuePosition": "You are #{position} in queue...",
+  "input.placeholder": "Send a message...",
+  "input.uploadFailed": "Failed to upload file, please try again!",
+  "input.waitForResponse": "Please wait for the model to finish its response!",
+
+  // Messages
+  "message.edit": "Edit message",
+  "message.editFailed": "Failed to edit message, please try again!",
+  "message.cancel": "Cancel",
+  "message.send": "Send",
+  "message.sending": "Sending...",
+  "message.skip": "Skip",
+  "message.gettingData": "Getting data..",
+  "message.processingTool": "Processing retrieved {toolName} data",
+  "message.usedTool": "Used Function: {toolName}",
+  "message.cancelled": "Response stopped by user",
+  "message.model": "Model: {model}",
+  "message.autoRouted": " (picked by Auto)",
+  "message.unverifiedClaims": "Not found in tool results: {claims}",
+  "message.unverifiedDetail": "{count} unverified detail",
+  "message.unverifiedDetails": "{count} unverified details",
+  "message.processingTime": "Total Processing Time: {time}",
+  "message.reasoning": "Reasoning",
+  "message.reasoned": "Reasoned for a few seconds",
+  "message.citationArguments": "Arguments",
+  "message.citationResult": "Result",
+  "message.citationNoResult": "No result yet",
+  "message.goodAnswer": "Good answer",
+  "message.badAnswer": "Bad answer",
+  "message.branch": "Branch from here",
+  "message.branchFailed": "Failed to branch chat, please try again!",
+  "message.feedbackThanks": "Thanks for the feedback!",
+  "message.feedbackFailed": "Failed to save feedback, please try again!",
+  "message.feedbackReason": "What went wrong? (optional)",
+
+  // Sidebar and navbar
+  "sidebar.open": "Open sidebar",
+  "sidebar.close": "Close sidebar",
+  "sidebar.toggle": "Sidebar",
+  "sidebar.newChat": "New chat",
+  "sidebar.apiKeys": "API keys",
+  "sidebar.reports": "Reports",
+  "sidebar.manage": "Manage",
+  "sidebar.chats": "Chats",
+  "sidebar.noChats": "No chat history",
+  "sidebar.loading": "Loading chat...",
+  "sidebar.branchedFrom": "From {title}",
+  "sidebar.share": "Share",
+  "sidebar.copyShareLink": "Copy share link",
+  "sidebar.makePrivate": "Make private",
+  "sidebar.delete": "Delete",
+  "sidebar.deleting": "Deleting chat...",
+  "sidebar.deleted": "Chat deleted successfully",
+  "sidebar.deleteFailed": "Failed to delete chat",
+  "sidebar.sharing": "Sharing chat...",
+  "sidebar.unsharing": "Unsharing chat...",
+  "sidebar.shareLinkCopied": "Share link copied to clipboard",
+  "sidebar.madePrivate": "Chat is private again",
+  "sidebar.visibilityFailed": "Failed to update chat visibility",
+  "sidebar.search": "Search chats",
+  "sidebar.searching": "Searching...",
+  "sidebar.noResults": "No matching chats",
+  "sidebar.searchFailed": "Search failed",
+  "sidebar.pinned": "Pinned",
+  "sidebar.pinHint": "Drag a chat here to pin it",
+  "sidebar.pin": "Pin",
+  "sidebar.unpin": "Unpin",
+  "sidebar.folders": "Folders",
+  "sidebar.newFolder": "New folder",
+  "sidebar.folderName": "Folder name",
+  "sidebar.emptyFolder": "Drag chats here",
+  "sidebar.renameFolder": "Rename",
+  "sidebar.deleteFolder": "Delete folder",
+  "sidebar.folderDeleted": "Folder deleted, its chats are back in your history",
+  "sidebar.folderFailed": "Failed to update folder",
+  "sidebar.removeFromFolder": "Remove from folder",
+  "sidebar.moveFailed": "Failed to move chat",
+  "sidebar.showMore": "Show more",
+  "sidebar.today": "Today",
+  "sidebar.yesterday": "Yesterday",
+  "sidebar.previous7Days": "Previous 7 days",
+  "sidebar.older": "Older",
+  "navbar.modelNote": "Note: If change from large to small,",
+  "navbar.modelNoteContinued": "will take a while to speed up",
+  "navbar.language": "Language",
+  "navbar.languageFailed": "Failed to save language, please try again!",
+
+  // Scheduled reports
+  "reports.title": "Scheduled Reports",
+  "reports.description":
+    "Each run is saved as a new chat under Reports in the sidebar. Schedules use cron syntax in Malaysia time, e.g. {example} for every Monday at 8am.",
+  "reports.titlePlaceholder": "Title, e.g. Weekly top items",
+  "reports.promptPlaceholder": "Prompt, e.g. Top 10 items last week by region",
+  "reports.cronPlaceholder": "Cron schedule",
+  "reports.emailPlaceholder": "Email the report to (optional)",
+  "reports.schedule": "Schedule report",
+  "reports.scheduled": "Report scheduled",
+  "reports.scheduleFailed":
+    "Failed to schedule report, check the schedule and retry!",
+  "reports.nextRun": "Next run: {time}",
+  "reports.invalidSchedule": "Invalid schedule",
+  "reports.running": "Running {title}...",
+  "reports.ready": "{title} is ready",
+  "reports.runFailed": "Failed to run report, please try again!",
+  "reports.updateFailed": "Failed to update report, please try again!",
+  "reports.deleted": "Deleted {title}",
+  "reports.deleteFailed": "Failed to delete report, please try again!",
+  "reports.columnTitle": "Title",
+  "reports.columnSchedule": "Schedule",
+  "reports.columnModel": "Model",
+  "reports.columnNextRun": "Next run",
+  "reports.emails": "Emails {email}",
+  "reports.paused": "Paused",
+  "reports.runNow": "Run now",
+  "reports.pause": "Pause",
+  "reports.resume": "Resume",
+  "reports.delete": "Delete",
+  "reports.empty": "No scheduled reports yet",
+
+  // API keys
+  "apiKeys.title": "API Keys",
+  "apiKeys.description":
+    "Use a key as a bearer token with the OpenAI-compatible endpoint at {endpoint}.",
+  "apiKeys.namePlaceholder": "Key name, e.g. Excel add-in",
+  "apiKeys.create": "Create key",
+  "apiKeys.createFailed": "Failed to create API key, please try again!",
+  "apiKeys.copyNow": "Copy this key now. It will not be shown again.",
+  "apiKeys.copied": "API key copied",
+  "apiKeys.revoke": "Revoke",
+  "apiKeys.revoked": "Revoked {name}",
+  "apiKeys.revokeFailed": "Failed to revoke API key, please try again!",
+  "apiKeys.columnName": "Name",
+  "apiKeys.columnKey": "Key",
+  "apiKeys.columnCreated": "Created",
+  "apiKeys.columnLastUsed": "Last used",
+  "apiKeys.empty": "No API keys yet",
+
+  // Tool descriptions shown while a tool runs
+  "toolDescription.getSalesAnalytics":
+    "Perform sales analytics, summary, detailed sales records, or trend analysis with flexible filters.",
+  "toolDescription.getInvoiceDetails":
+    "Retrieve detailed information for a given invoice, listing every item tied to that invoice and summing up the overall total.",
+  "toolDescription.getTopAggregates":
+    "Retrieve top aggregates by item, customer, state, invoice or payment method.",
+  "toolDescription.getSalesMetadata":
+    "Retrieve metadata such as payment methods, regions and the date range of the sales dataset.",
+
+  // Tool results, read by the model and shown in citations
+  "tools.noSalesRecords": "No sales records found for the given filters.",
+  "tools.noGroups": "No groups found for the given filters.",
+  "tools.noInvoiceRecords": "No records found for invoice {invoice}.",
+  "tools.paymentMethodUnavailable":
+    "Payment method '{paymentMethod}' is not available.",
+  "tools.invalidAnalyticsType": "Invalid analytics type provided.",
+  "tools.invalidOperation": "Invalid operation.",
+  "tools.unsupportedQueryType": "Unsupported query type.",
+  "tools.saleRecord":
+    "Invoice: {invoice}, Customer: {customer}, PurchaseDate: {purchaseDate}, Total: RM {total}",
+  "tools.paymentMethodSummary":
+    "Payment Method: {paymentMethod}, Count: {count}, Total: RM {total}",
+  "tools.totalSales": "Total sales: RM {total}",
+  "tools.averageSale": "Average sale: RM {average}",
+  "tools.salesCount": "Number of sales: {count}",
+  "tools.trendPeriod":
+    "Period: {period}, Total Sales: RM {total}, Sales Count: {count}",
+  "tools.invoiceHeader": "Invoice: {invoice}",
+  "tools.invoiceItem":
+    "Customer: {customer}, PurchaseDate: {purchaseDate}, Address: {address}, Item: {item}, Quantity: {quantity}, Price: RM {price}, Total: RM {total}, Payment: {paymentMethod}",
+  "tools.invoiceTotal": "Overall Invoice Total: RM {total}",
+  "tools.itemAggregate":
+    "Item: {item}, Count: {count}, Total Quantity Sold: {quantity}, Total Sales: RM {total}, Average Price: RM {averagePrice}",
+  "tools.groupAggregate":
+    "Group ({groupBy}): {group}, Count: {count}, Total Sales: RM {total}, Total Quantity: {quantity}",
+  "tools.invoiceTrends": "Invoice Trends:",
+  "tools.uniqueInvoices": "Unique Invoices: {count}",
+  "tools.totalInvoiceAmount": "Total Invoice Amount: RM {total}",
+  "tools.averageInvoiceValue": "Average Invoice Value: RM {average}",
+  "tools.paymentMethods": "Available payment methods: {paymentMethods}",
+  "tools.noPaymentMethods": "No payment methods found.",
+  "tools.regions": "Available regions: {regions}",
+  "tools.noRegions": "No regions found.",
+  "tools.dateRange": "Date range: From {from} to {to}",
+  "tools.noDateRange": "No date range found.",
+  // Also how answers label customer names, see answer verification.
+  "tools.customerLabel": "Customer",
+
+  // Tool progress steps
+  "progress.salesRecordsFound": "sales records: {count} found",
+  "progress.groupingBy": "grouping sales by {groupBy}",
+  "progress.trendPeriods": "trend: {count} periods",
+  "progress.vectorMatches": "vector search: {count} matches",
+  "progress.aggregatingBatch": "aggregating batch {batch}/{batches}",
+  "progress.aggregatingByItem": "aggregating {count} records by item",
+  "progress.groups": "{groupBy}: {count} groups",
+  "progress.invoiceTrends": "invoice trends for {region}",
+};
+
+export type MessageKey = keyof typeof en;
+
+const ms: Record<MessageKey, string> = {
+  // Chat
+  "chat.greeting": "Hai! Saya {name}. Apa yang boleh saya bantu hari ini?",
+  "chat.error": "Ralat berlaku, sila cuba lagi! {error}",
+  "chat.sharedBy": "Dikongsi oleh {name} · Baca sahaja",
+  "chat.thinking": "Sedang berfikir...",
+  "chat.queuePosition": "Anda di giliran #{position}...",
+  "input.placeholder": "Hantar mesej...",
+  "input.uploadFailed": "Gagal memuat naik fail, sila cuba lagi!",
+  "input.waitForResponse": "Sila tunggu model selesai menjawab!",
+
+  // Messages
+  "message.edit": "Sunting mesej",
+  "message.editFailed": "Gagal menyunting mesej, sila cuba lagi!",
+  "message.cancel": "Batal",
+  "message.send": "Hantar",
+  "message.sending": "Menghantar...",
+  "message.skip": "Langkau",
+  "message.gettingData": "Mendapatkan data..",
+  "message.processingTool": "Memproses data {toolName} yang diperoleh",
+  "message.usedTool": "Fungsi digunakan: {toolName}",
+  "message.cancelled": "Jawapan dihentikan oleh pengguna",
+  "message.model": "Model: {model}",
+  "message.autoRouted": " (dipilih oleh Auto)",
+  "message.unverifiedClaims": "Tiada dalam hasil alat: {claims}",
+  "message.unverifiedDetail": "{count} butiran tidak disahkan",
+  "message.unverifiedDetails": "{count} butiran tidak disahkan",
+  "message.processingTime": "Jumlah Masa Pemprosesan: {time}",
+  "message.reasoning": "Sedang menaakul",
+  "message.reasoned": "Menaakul selama beberapa saat",
+  "message.citationArguments": "Argumen",
+  "message.citationResult": "Hasil",
+  "message.citationNoResult": "Belum ada hasil",
+  "message.goodAnswer": "Jawapan baik",
+  "message.badAnswer": "Jawapan kurang baik",
+  "message.branch": "Cabang dari sini",
+  "message.branchFailed": "Gagal mencabangkan sembang, sila cuba lagi!",
+  "message.feedbackThanks": "Terima kasih atas maklum balas anda!",
+  "message.feedbackFailed": "Gagal menyimpan maklum balas, sila cuba lagi!",
+  "message.feedbackReason": "Apa yang tidak kena? (pilihan)",
+
+  // Sidebar and navbar
+  "sidebar.open": "Buka bar sisi",
+  "sidebar.close": "Tutup bar sisi",
+  "sidebar.toggle": "Bar sisi",
+  "sidebar.newChat": "Sembang baharu",
+  "sidebar.apiKeys": "Kunci API",
+  "sidebar.reports": "Laporan",
+  "sidebar.manage": "Urus",
+  "sidebar.chats": "Sembang",
+  "sidebar.noChats": "Tiada sejarah sembang",
+  "sidebar.loading": "Memuatkan sembang...",
+  "sidebar.branchedFrom": "Daripada {title}",
+  "sidebar.share": "Kongsi",
+  "sidebar.copyShareLink": "Salin pautan kongsi",
+  "sidebar.makePrivate": "Jadikan peribadi",
+  "sidebar.delete": "Padam",
+  "sidebar.deleting": "Memadam sembang...",
+  "sidebar.deleted": "Sembang berjaya dipadam",
+  "sidebar.deleteFailed": "Gagal memadam sembang",
+  "sidebar.sharing": "Berkongsi sembang...",
+  "sidebar.unsharing": "Menghentikan perkongsian sembang...",
+  "sidebar.shareLinkCopied": "Pautan kongsi disalin ke papan keratan",
+  "sidebar.madePrivate": "Sembang kini peribadi semula",
+  "sidebar.visibilityFailed": "Gagal mengemas kini keterlihatan sembang",
+  "sidebar.search": "Cari sembang",
+  "sidebar.searching": "Mencari...",
+  "sidebar.noResults": "Tiada sembang yang sepadan",
+  "sidebar.searchFailed": "Carian gagal",
+  "sidebar.pinned": "Disemat",
+  "sidebar.pinHint": "Seret sembang ke sini untuk menyematnya",
+  "sidebar.pin": "Semat",
+  "sidebar.unpin": "Nyahsemat",
+  "sidebar.folders": "Folder",
+  "sidebar.newFolder": "Folder baharu",
+  "sidebar.folderName": "Nama folder",
+  "sidebar.emptyFolder": "Seret sembang ke sini",
+  "sidebar.renameFolder": "Namakan semula",
+  "sidebar.deleteFolder": "Padam folder",
+  "sidebar.folderDeleted": "Folder dipadam, sembangnya kembali ke sejarah anda",
+  "sidebar.folderFailed": "Gagal mengemas kini folder",
+  "sidebar.removeFromFolder": "Keluarkan dari folder",
+  "sidebar.moveFailed": "Gagal memindahkan sembang",
+  "sidebar.showMore": "Tunjuk lagi",
+  "sidebar.today": "Hari ini",
+  "sidebar.yesterday": "Semalam",
+  "sidebar.previous7Days": "7 hari lepas",
+  "sidebar.older": "Lebih lama",
+  "navbar.modelNote": "Nota: Jika ditukar dari besar ke kecil,",
+  "navbar.modelNoteContinued": "ia akan mengambil sedikit masa untuk laju",
+  "navbar.language": "Bahasa",
+  "navbar.languageFailed": "Gagal menyimpan bahasa, sila cuba lagi!",
+
+  // Scheduled reports
+  "reports.title": "Laporan Berjadual",
+  "reports.description":
+    "Setiap larian disimpan sebagai sembang baharu di bawah Laporan dalam bar sisi. Jadual menggunakan sintaks cron dalam waktu Malaysia, cth. {example} untuk setiap Isnin pukul 8 pagi.",
+  "reports.titlePlaceholder": "Tajuk, cth. Barangan terlaris mingguan",
+  "reports.promptPlaceholder":
+    "Arahan, cth. 10 barangan teratas minggu lepas mengikut kawasan",
+  "reports.cronPlaceholder": "Jadual cron",
+  "reports.emailPlaceholder": "E-mel laporan kepada (pilihan)",
+  "reports.schedule": "Jadualkan laporan",
+  "reports.scheduled": "Laporan dijadualkan",
+  "reports.scheduleFailed":
+    "Gagal menjadualkan laporan, semak jadual dan cuba lagi!",
+  "reports.nextRun": "Larian seterusnya: {time}",
+  "reports.invalidSchedule": "Jadual tidak sah",
+  "reports.running": "Menjalankan {title}...",
+  "reports.ready": "{title} sudah sedia",
+  "reports.runFailed": "Gagal menjalankan laporan, sila cuba lagi!",
+  "reports.updateFailed": "Gagal mengemas kini laporan, sila cuba lagi!",
+  "reports.deleted": "{title} dipadam",
+  "reports.deleteFailed": "Gagal memadam laporan, sila cuba lagi!",
+  "reports.columnTitle": "Tajuk",
+  "reports.columnSchedule": "Jadual",
+  "reports.columnModel": "Model",
+  "reports.columnNextRun": "Larian seterusnya",
+  "reports.emails": "E-mel kepada {email}",
+  "reports.paused": "Dijeda",
+  "reports.runNow": "Jalankan sekarang",
+  "reports.pause": "Jeda",
+  "reports.resume": "Sambung",
+  "reports.delete": "Padam",
+  "reports.empty": "Belum ada laporan berjadual",
+
+  // API keys
+  "apiKeys.title": "Kunci API",
+  "apiKeys.description":
+    "Gunakan kunci sebagai token pembawa dengan titik akhir serasi OpenAI di {endpoint}.",
+  "apiKeys.namePlaceholder": "Nama kunci, cth. Add-in Excel",
+  "apiKeys.create": "Cipta kunci",
+  "apiKeys.createFailed": "Gagal mencipta kunci API, sila cuba lagi!",
+  "apiKeys.copyNow": "Salin kunci ini sekarang. Ia tidak akan dipaparkan lagi.",
+  "apiKeys.copied": "Kunci API disalin",
+  "apiKeys.revoke": "Batalkan",
+  "apiKeys.revoked": "{name} dibatalkan",
+  "apiKeys.revokeFailed": "Gagal membatalkan kunci API, sila cuba lagi!",
+  "apiKeys.columnName": "Nama",
+  "apiKeys.columnKey": "Kunci",
+  "apiKeys.columnCreated": "Dicipta",
+  "apiKeys.columnLastUsed": "Terakhir digunakan",
+  "apiKeys.empty": "Belum ada kunci API",
+
+  // Tool descriptions shown while a tool runs
+  "toolDescription.getSalesAnalytics":
+    "Menjalankan analitik jualan, ringkasan, rekod jualan terperinci atau analisis trend dengan penapis fleksibel.",
+  "toolDescription.getInvoiceDetails":
+    "Mendapatkan butiran invois, menyenaraikan setiap barangan dalam invois tersebut dan menjumlahkan keseluruhannya.",
+  "toolDescription.getTopAggregates":
+    "Mendapatkan agregat teratas mengikut barangan, pelanggan, negeri, invois atau kaedah pembayaran.",
+  "toolDescription.getSalesMetadata":
+    "Mendapatkan metadata seperti kaedah pembayaran, kawasan dan julat tarikh set data jualan.",
+
+  // Tool results, read by the model and shown in citations
+  "tools.noSalesRecords":
+    "Tiada rekod jualan ditemui untuk penapis yang diberi.",
+  "tools.noGroups": "Tiada kumpulan ditemui untuk penapis yang diberi.",
+  "tools.noInvoiceRecords": "Tiada rekod ditemui untuk invois {invoice}.",
+  "tools.paymentMethodUnavailable":
+    "Kaedah pembayaran '{paymentMethod}' tidak tersedia.",
+  "tools.invalidAnalyticsType": "Jenis analitik yang diberi tidak sah.",
+  "tools.invalidOperation": "Operasi tidak sah.",
+  "tools.unsupportedQueryType": "Jenis pertanyaan tidak disokong.",
+  "tools.saleRecord":
+    "Invois: {invoice}, Pelanggan: {customer}, Tarikh Pembelian: {purchaseDate}, Jumlah: RM {total}",
+  "tools.paymentMethodSummary":
+    "Kaedah Pembayaran: {paymentMethod}, Bilangan: {count}, Jumlah: RM {total}",
+  "tools.totalSales": "Jumlah jualan: RM {total}",
+  "tools.averageSale": "Purata jualan: RM {average}",
+  "tools.salesCount": "Bilangan jualan: {count}",
+  "tools.trendPeriod":
+    "Tempoh: {period}, Jumlah Jualan: RM {total}, Bilangan Jualan: {count}",
+  "tools.invoiceHeader": "Invois: {invoice}",
+  "tools.invoiceItem":
+    "Pelanggan: {customer}, Tarikh Pembelian: {purchaseDate}, Alamat: {address}, Barangan: {item}, Kuantiti: {quantity}, Harga: RM {price}, Jumlah: RM {total}, Pembayaran: {paymentMethod}",
+  "tools.invoiceTotal": "Jumlah Keseluruhan Invois: RM {total}",
+  "tools.itemAggregate":
+    "Barangan: {item}, Bilangan: {count}, Jumlah Kuantiti Terjual: {quantity}, Jumlah Jualan: RM {total}, Harga Purata: RM {averagePrice}",
+  "tools.groupAggregate":
+    "Kumpulan ({groupBy}): {group}, Bilangan: {count}, Jumlah Jualan: RM {total}, Jumlah Kuantiti: {quantity}",
+  "tools.invoiceTrends": "Trend Invois:",
+  "tools.uniqueInvoices": "Invois Unik: {count}",
+  "tools.totalInvoiceAmount": "Jumlah Amaun Invois: RM {total}",
+  "tools.averageInvoiceValue": "Nilai Purata Invois: RM {average}",
+  "tools.paymentMethods": "Kaedah pembayaran tersedia: {paymentMethods}",
+  "tools.noPaymentMethods": "Tiada kaedah pembayaran ditemui.",
+  "tools.regions": "Kawasan tersedia: {regions}",
+  "tools.noRegions": "Tiada kawasan ditemui.",
+  "tools.dateRange": "Julat tarikh: Dari {from} hingga {to}",
+  "tools.noDateRange": "Tiada julat tarikh ditemui.",
+  "tools.customerLabel": "Pelanggan",
+
+  // Tool progress steps
+  "progress.salesRecordsFound": "rekod jualan: {count} ditemui",
+  "progress.groupingBy": "mengumpulkan jualan mengikut {groupBy}",
+  "progress.trendPeriods": "trend: {count} tempoh",
+  "progress.vectorMatches": "carian vektor: {count} padanan",
+  "progress.aggregatingBatch": "mengagregat kelompok {batch}/{batches}",
+  "progress.aggregatingByItem": "mengagregat {count} rekod mengikut barangan",
+  "progress.groups": "{groupBy}: {count} kumpulan",
+  "progress.invoiceTrends": "trend invois untuk {region}",
+};
+
+const catalogs: Record<Locale, Record<MessageKey, string>> = { en, ms };
+
+export const isLocale = (value: unknown): value is Locale =>
+  locales.some((locale) => locale.id === value);
+
+export const isMessageKey = (key: string): key is MessageKey => key in en;
+
+/**
+ * Looks up a string in the locale's catalog and fills its `{name}`
+ * placeholders. Unknown placeholders are left as they are.
+ */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  values: Record<string, string | number> = {}
+) {
+  return catalogs[locale][key].replace(/\{(\w+)\}/g, (placeholder, name) =>
+    name in values ? String(values[name]) : placeholder
+  );
+}
+
+export type Translate = (
+  key: MessageKey,
+  values?: Record<string, string | number>
+) => string;
+
+export const createTranslator =
+  (locale: Locale): Translate =>
+  (key, values) =>
+    translate(locale, key, values);
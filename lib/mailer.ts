@@ -0,0 +1,45 @@
+import nodemailer from "nodemailer";
+
+const mailerSingleton = () => {
+  if (!process.env.SMTP_HOST) return null;
+
+  return nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+};
+
+declare const globalThis: {
+  mailerGlobal: ReturnType<typeof mailerSingleton>;
+} & typeof global;
+
+const mailer = (globalThis.mailerGlobal ??= mailerSingleton());
+
+export const isMailerConfigured = () => mailer !== null;
+
+/**
+ * Sends a plain-text email through the SMTP server in the SMTP_* variables.
+ * Does nothing when SMTP is not configured.
+ */
+export async function sendEmail({
+  to,
+  subject,
+  text,
+}: {
+  to: string;
+  subject: string;
+  text: string;
+}): Promise<void> {
+  if (!mailer) return;
+
+  await mailer.sendMail({
+    from: process.env.SMTP_FROM || process.env.SMTP_USER,
+    to,
+    subject,
+    text,
+  });
+}
@@ -0,0 +1,332 @@
+import {
+  EmbeddingModel,
+  extractReasoningMiddleware,
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1StreamPart,
+  Provider,
+  simulateReadableStream,
+  wrapLanguageModel,
+} from "ai";
+
+// Scripted stand-in for the Ollama models, so the chat flow, title generation,
+// tool repair and embeddings run without a model host. Enable it with
+// MODEL_PROVIDER=mock.
+
+export type MockStep = {
+  // Sent inside <think> tags to the deepseek-r1 models, which extract it as
+  // reasoning. Other models leave it out.
+  reasoning?: string;
+  text?: string;
+  toolCalls?: Array<{ toolName: string; args: Record<string, unknown> }>;
+  // Returned as JSON for generateObject calls.
+  object?: unknown;
+};
+
+export type MockRule = {
+  // Regular expressions, all of which must match for the rule to apply.
+  model?: string;
+  system?: string;
+  prompt?: string;
+  // One step per model call in a multi-step answer. The last step repeats
+  // if the model is called more often. Rules that call tools are skipped
+  // when the call has no tools, e.g. for the reasoning models.
+  steps: Array<MockStep>;
+};
+
+type MockToolCall = Omit<
+  Extract<LanguageModelV1StreamPart, { type: "tool-call" }>,
+  "type"
+>;
+
+// Must match the Vector table's vector(4096) column.
+export const MOCK_EMBEDDING_DIMENSIONS = 4096;
+
+const CHUNK_DELAY_MS = Number(process.env.MOCK_CHUNK_DELAY_MS || 0);
+
+const defaultMockScript: Array<MockRule> = [
+  {
+    system: "short title",
+    steps: [{ text: "Mock chat" }],
+  },
+  {
+    system: "classify user queries",
+    steps: [{ text: "TOTAL_SALES" }],
+  },
+  {
+    system: "follow-up questions",
+    steps: [
+      {
+        object: {
+          questions: [
+            "How does this compare to last month?",
+            "Which items sold the most?",
+            "Break this down by payment method",
+          ],
+        },
+      },
+    ],
+  },
+  {
+    system: "fix the arguments of a tool call",
+    steps: [{ object: {} }],
+  },
+  {
+    prompt: "invoice",
+    steps: [
+      {
+        toolCalls: [
+          {
+            toolName: "getSalesAnalytics",
+            args: { operation: "FILTER", dateRange: "last month" },
+          },
+        ],
+      },
+      {
+        text: "Here are last month's invoices:\n\n{{toolResult}} [cite:{{toolCallId}}]",
+      },
+    ],
+  },
+  {
+    prompt: "sales|total|revenue",
+    steps: [
+      {
+        toolCalls: [
+          {
+            toolName: "getSalesAnalytics",
+            args: { operation: "ANALYTICS", analyticsType: "TOTAL_SALES" },
+          },
+        ],
+      },
+      {
+        reasoning: "The tool returned the total, so I will quote it.",
+        text: "{{toolResult}} [cite:{{toolCallId}}]",
+      },
+    ],
+  },
+  {
+    steps: [
+      {
+        reasoning: "This is a mock answer, no tools are needed.",
+        text: "This is a mock response from the scripted model provider.",
+      },
+    ],
+  },
+];
+
+const parseMockScript = (): Array<MockRule> => {
+  if (!process.env.MOCK_MODEL_SCRIPT) return [];
+
+  try {
+    return JSON.parse(process.env.MOCK_MODEL_SCRIPT);
+  } catch (error) {
+    console.error("Invalid MOCK_MODEL_SCRIPT, using the default script", error);
+    return [];
+  }
+};
+
+const mockModelsSingleton = () => {
+  return {
+    // Rules from MOCK_MODEL_SCRIPT are tried before the defaults.
+    script: [...parseMockScript(), ...defaultMockScript],
+  };
+};
+
+declare const globalThis: {
+  mockModelsGlobal: ReturnType<typeof mockModelsSingleton>;
+} & typeof global;
+
+const mockModels = (globalThis.mockModelsGlobal ??= mockModelsSingleton());
+
+/**
+ * Replaces the rules the mock models answer with, e.g. from a test. The
+ * default rules still apply after them.
+ */
+export function setMockModelScript(script: Array<MockRule>) {
+  mockModels.script = [...script, ...defaultMockScript];
+}
+
+const matches = (pattern: string | undefined, value: string) =>
+  pattern === undefined || new RegExp(pattern, "i").test(value);
+
+function getPromptText(prompt: LanguageModelV1CallOptions["prompt"]) {
+  const system = prompt
+    .flatMap((message) => (message.role === "system" ? [message.content] : []))
+    .join("\n");
+
+  const lastUserIndex = prompt.findLastIndex(
+    (message) => message.role === "user"
+  );
+  const lastUser = prompt[lastUserIndex];
+  const user =
+    lastUser?.role === "user"
+      ? lastUser.content
+          .map((part) => (part.type === "text" ? part.text : ""))
+          .join("")
+      : "";
+
+  // Each tool round trip since the question is one step of the answer.
+  const toolResults = prompt
+    .slice(lastUserIndex + 1)
+    .flatMap((message) => (message.role === "tool" ? message.content : []));
+
+  return { system, user, toolResults };
+}
+
+const isReasoningModel = (modelId: string) => modelId.startsWith("deepseek-r1");
+
+function getMockStep(modelId: string, options: LanguageModelV1CallOptions) {
+  const { system, user, toolResults } = getPromptText(options.prompt);
+  const tools =
+    options.mode.type === "regular" ? (options.mode.tools ?? []) : [];
+  const rule = mockModels.script.find(
+    (rule) =>
+      (tools.length > 0 || rule.steps.every((step) => !step.toolCalls)) &&
+      matches(rule.model, modelId) &&
+      matches(rule.system, system) &&
+      matches(rule.prompt, user)
+  );
+  const steps = rule?.steps ?? [{ text: "" }];
+  const step = steps[Math.min(toolResults.length, steps.length - 1)];
+
+  // {{toolResult}} and {{toolCallId}} refer to the latest tool result, so
+  // scripted answers can quote real figures and cite them.
+  const lastToolResult = toolResults.at(-1);
+  const result = lastToolResult?.result as
+    { toolCallId?: string; result?: unknown } | string | undefined;
+  const resultText =
+    typeof result === "object" && result !== null && "result" in result
+      ? result.result
+      : result;
+  const fill = (text: string) =>
+    text
+      .replace(
+        /\{\{toolResult\}\}/g,
+        typeof resultText === "string"
+          ? resultText
+          : JSON.stringify(resultText ?? "")
+      )
+      .replace(/\{\{toolCallId\}\}/g, lastToolResult?.toolCallId ?? "");
+
+  const text =
+    step.object !== undefined
+      ? JSON.stringify(step.object)
+      : `${
+          step.reasoning && isReasoningModel(modelId)
+            ? `<think>${step.reasoning}</think>`
+            : ""
+        }${fill(step.text ?? "")}`;
+
+  const toolCalls: Array<MockToolCall> = (step.toolCalls ?? [])
+    .filter((toolCall) => tools.some((tool) => tool.name === toolCall.toolName))
+    .map((toolCall, index) => ({
+      toolCallType: "function",
+      toolCallId: `mock-call-${toolResults.length}-${index}`,
+      toolName: toolCall.toolName,
+      args: JSON.stringify(toolCall.args),
+    }));
+
+  return { text, toolCalls };
+}
+
+const usage = { promptTokens: 0, completionTokens: 0 };
+
+function createMockLanguageModel(modelId: string): LanguageModelV1 {
+  const model: LanguageModelV1 = {
+    specificationVersion: "v1",
+    provider: "mock",
+    modelId,
+    defaultObjectGenerationMode: "json",
+    doGenerate: async (options) => {
+      const { text, toolCalls } = getMockStep(modelId, options);
+
+      return {
+        text,
+        toolCalls,
+        finishReason: toolCalls.length > 0 ? "tool-calls" : "stop",
+        usage,
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+    doStream: async (options) => {
+      const { text, toolCalls } = getMockStep(modelId, options);
+
+      // Word by word, like a real model streams.
+      const textDeltas = text.match(/\S+\s*|\s+/g) ?? [];
+      const chunks: Array<LanguageModelV1StreamPart> = [
+        ...textDeltas.map((textDelta) => ({
+          type: "text-delta" as const,
+          textDelta,
+        })),
+        ...toolCalls.map((toolCall) => ({
+          type: "tool-call" as const,
+          ...toolCall,
+        })),
+        {
+          type: "finish",
+          finishReason: toolCalls.length > 0 ? "tool-calls" : "stop",
+          usage,
+        },
+      ];
+
+      return {
+        stream: simulateReadableStream({
+          chunks,
+          chunkDelayInMs: CHUNK_DELAY_MS,
+        }),
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+  };
+
+  return isReasoningModel(modelId)
+    ? wrapLanguageModel({
+        model,
+        middleware: extractReasoningMiddleware({ tagName: "think" }),
+      })
+    : model;
+}
+
+/**
+ * Returns a unit vector seeded from the text, so the same text always gets
+ * the same embedding and similar searches are repeatable.
+ */
+export function getMockEmbedding(text: string): Array<number> {
+  // FNV-1a hash of the text seeds a mulberry32 generator.
+  let seed = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    seed = Math.imul(seed ^ text.charCodeAt(index), 0x01000193);
+  }
+
+  const next = () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let value = Math.imul(seed ^ (seed >>> 15), seed | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296 - 0.5;
+  };
+
+  const vector = Array.from({ length: MOCK_EMBEDDING_DIMENSIONS }, next);
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value ** 2, 0));
+
+  return vector.map((value) => value / norm);
+}
+
+export function createMockProvider(): Provider {
+  return {
+    languageModel: createMockLanguageModel,
+    textEmbeddingModel: (modelId) =>
+      ({
+        specificationVersion: "v1",
+        provider: "mock",
+        modelId,
+        maxEmbeddingsPerCall: undefined,
+        supportsParallelCalls: true,
+        doEmbed: async ({ values }) => ({
+          embeddings: values.map(getMockEmbedding),
+        }),
+      }) satisfies EmbeddingModel<string>,
+    imageModel: () => {
+      throw new Error("The mock provider has no image models");
+    },
+  };
+}
@@ -1,10 +1,10 @@
-import { toolsMapping } from "@/services/tools";
 import {
   customProvider,
   extractReasoningMiddleware,
   wrapLanguageModel,
 } from "ai";
 import { createOllama } from "ollama-ai-provider";
+import { createMockProvider } from "./mock-models";
 
 const API_URL =
   process.env.OLLAMA_API_URL || "http://host.docker.internal:11434/api";
@@ -17,39 +17,57 @@ export const ollama = createOllama({
 export const DEFAULT_CHAT_MODEL: string =
   process.env.OLLAMA_CHAT_MODEL || "deepseek-r1:7b";
 
-export const myProvider = customProvider({
-  languageModels: {
-    "deepseek-r1:7b": wrapLanguageModel({
-      model: ollama("deepseek-r1:7b"),
-      middleware: extractReasoningMiddleware({ tagName: "think" }),
-    }),
-    "deepseek-r1:70b": wrapLanguageModel({
-      model: ollama("deepseek-r1:70b"),
-      middleware: extractReasoningMiddleware({ tagName: "think" }),
-    }),
-    "llama3.3:latest": ollama("llama3.3:latest", { simulateStreaming: true }),
-    mistral: ollama("mistral", { simulateStreaming: true }),
-    "qwen2.5:7b": ollama("qwen2.5:7b", { simulateStreaming: true }),
-    "qwen2.5:14b": ollama("qwen2.5:14b", { simulateStreaming: true }),
-    "qwen2.5:32b": ollama("qwen2.5:32b", { simulateStreaming: true }),
-    "qwen2.5:72b": ollama("qwen2.5:72b", { simulateStreaming: true }),
-    "small-model": ollama("llama3.2", { simulateStreaming: true }),
-    "llama3.2-object": ollama("llama3.2", {
-      simulateStreaming: true,
-      structuredOutputs: true,
-    }),
-    openhermes: ollama("openhermes", { simulateStreaming: true }),
-    "openhermes-object": ollama("openhermes", {
-      structuredOutputs: true,
-      simulateStreaming: true,
-    }),
-  },
-  textEmbeddingModels: {
-    "embedding-model": ollama.textEmbeddingModel(
-      "avr/sfr-embedding-mistral:latest"
-    ),
-  },
-});
+export const myProvider =
+  process.env.MODEL_PROVIDER === "mock"
+    ? createMockProvider()
+    : customProvider({
+        languageModels: {
+          "deepseek-r1:7b": wrapLanguageModel({
+            model: ollama("deepseek-r1:7b"),
+            middleware: extractReasoningMiddleware({ tagName: "think" }),
+          }),
+          "deepseek-r1:70b": wrapLanguageModel({
+            model: ollama("deepseek-r1:70b"),
+            middleware: extractReasoningMiddleware({ tagName: "think" }),
+          }),
+          "llama3.3:latest": ollama("llama3.3:latest", {
+            simulateStreaming: true,
+          }),
+          mistral: ollama("mistral", { simulateStreaming: true }),
+          "qwen2.5:7b": ollama("qwen2.5:7b", { simulateStreaming: true }),
+          "qwen2.5:14b": ollama("qwen2.5:14b", { simulateStreaming: true }),
+          "qwen2.5:32b": ollama("qwen2.5:32b", { simulateStreaming: true }),
+          "qwen2.5:72b": ollama("qwen2.5:72b", { simulateStreaming: true }),
+          "small-model": ollama("llama3.2", { simulateStreaming: true }),
+          "llama3.2-object": ollama("llama3.2", {
+            simulateStreaming: true,
+            structuredOutputs: true,
+          }),
+          openhermes: ollama("openhermes", { simulateStreaming: true }),
+          "openhermes-object": ollama("openhermes", {
+            structuredOutputs: true,
+            simulateStreaming: true,
+          }),
+        },
+        textEmbeddingModels: {
+          "embedding-model": ollama.textEmbeddingModel(
+            "avr/sfr-embedding-mistral:latest"
+          ),
+        },
+      });
+
+export const AUTO_CHAT_MODEL = "auto";
+
+export type QueryCategory =
+  "INVOICE_SEARCH" | "TOTAL_SALES" | "ANALYTICS" | "OTHER";
+
+// The model the Auto option picks for each category from classifyUserQuery.
+export const autoChatModelRoutes: Record<QueryCategory, string> = {
+  INVOICE_SEARCH: "small-model",
+  TOTAL_SALES: "qwen2.5:14b",
+  ANALYTICS: "llama3.3:latest",
+  OTHER: "small-model",
+};
 
 interface ChatModel {
   id: string;
@@ -58,6 +76,11 @@ interface ChatModel {
 }
 
 export const chatModels: Array<ChatModel> = [
+  {
+    id: AUTO_CHAT_MODEL,
+    name: "Auto",
+    description: "Picks a model based on the question",
+  },
   {
     id: "small-model",
     name: "Small model (llama3.2)",
@@ -147,7 +170,7 @@ You are a friendly assistant named IdealAgent! Keep your responses concise and h
 
 
 ### **Current Available Tools:**
-${Object.keys(toolsMapping).join("\n")}
+{{tools}}
 
 ### **Additional Instructions:**
 - Always respond ONLY based on provided sales data.
@@ -158,3 +181,97 @@ ${Object.keys(toolsMapping).join("\n")}
 `;
 
 // - use testSearchAggregates first if the message request large period of data before performing getTopAggregates.
+
+export const deepseekPrompt = `
+You are a friendly assistant named IdealAgent! Keep your responses concise and helpful.
+
+### SALES DATA CONTEXT:
+- You have access to a structured dataset containing sales transactions.
+- The dataset includes details such as:
+  - **Invoice Number** - Unique identifier for each transaction.
+  - **Customer Name** - Name of the buyer.
+  - **Purchase Date** - The date the transaction occurred.
+  - **Address** - Customer's location details.
+  - **Item Description** - The product or service purchased.
+  - **Quantity** - Number of units bought.
+  - **Price per Unit** - The cost of a single unit.
+  - **Total Amount** - Total cost of the transaction.
+  - **Payment Method** - The method used for payment (e.g., Credit Card, Cash).
+  - **Additional Notes** - Any comments or remarks related to the sale.
+- The dataset is a list of purchased items with their respective details such as invoice. So expect the invoice to have duplicates.
+- The **Total Amount** can be 0 at some point, this indicate that the item was sold for free.
+- Each row is unique by combination of Invoice and Item Description.
+
+### SALES DATA CONTENT:
+{{salesData}}
+
+INSTRUCTIONS: For any sales query, ONLY use the above data. Do NOT hallucinate or generate mock data.
+Ensure invoice numbers, customer names, and all details exactly match the provided sales data.
+`;
+
+export type PromptFamily = "default" | "deepseek";
+
+export const promptFamilies: Array<PromptFamily> = ["default", "deepseek"];
+
+export const getPromptFamily = (chatModel: string): PromptFamily =>
+  chatModel.startsWith("deepseek-r1") ? "deepseek" : "default";
+
+// Used when a family has no published version in the prompt registry yet.
+export const fallbackPrompts: Record<PromptFamily, string> = {
+  default: regularPrompt,
+  deepseek: deepseekPrompt,
+};
+
+/**
+ * Fills `{{name}}` placeholders in a prompt template, such as `{{tools}}` and
+ * `{{salesData}}`. Unknown placeholders are left as they are.
+ */
+export const renderPrompt = (
+  template: string,
+  variables: Record<string, string>
+) =>
+  template.replace(
+    /\{\{(\w+)\}\}/g,
+    (placeholder, name: string) => variables[name] ?? placeholder
+  );
+
+// Lets answers point at the tool call behind each figure.
+export const citationPrompt = `
+### **Citations:**
+- Every tool result comes with the \`toolCallId\` of the call that produced it.
+- After each figure, invoice number or customer name taken from a tool result, cite that call as [cite:<toolCallId>], e.g. "Total sales: RM 1,234,567.00 [cite:abc123]".
+- When a figure comes from several calls, cite them together as [cite:<toolCallId>, <toolCallId>].
+- Only use \`toolCallId\` values that appear in the tool results.
+`;
+
+/**
+ * Date context appended to the system prompt on every request, so relative
+ * periods are resolved against today rather than the model's training data.
+ */
+export const dateContextPrompt = ({
+  today,
+  salesDateRange,
+}: {
+  today: string;
+  salesDateRange: { from: string; to: string } | null;
+}) => `
+### **Date Context:**
+- Today's date is ${today}.
+- ${
+  salesDateRange
+    ? `The sales data covers ${salesDateRange.from} to ${salesDateRange.to}. Periods outside this span have no records.`
+    : "The sales data is currently empty."
+}
+- For relative periods such as "last month", "Q1 this year" or "since Raya", pass the user's phrase as \`dateRange\` instead of calculating \`startDate\` and \`endDate\` yourself.
+`;
+
+/**
+ * Tells the model which language to answer in. Tool arguments stay in their
+ * canonical English form, since the tools match them against the data.
+ */
+export const languagePrompt = (language: string) => `
+### **Language:**
+- The user is writing in ${language}. Reply in ${language}.
+- Keep tool arguments canonical regardless of the reply language: enum values such as \`TOTAL_SALES\` as they are, dates in ISO format, and invoice numbers, customer names, items and payment methods exactly as they appear in the data.
+- Translate relative periods to English before passing them as \`dateRange\`, e.g. "bulan lepas" becomes "last month" and "sejak Raya" becomes "since Raya".
+`;
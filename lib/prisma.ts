@@ -1,4 +1,4 @@
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
 
 const prismaClientSingleton = () => {
   return new PrismaClient();
@@ -15,3 +15,40 @@ export default prisma;
 if (process.env.NODE_ENV !== "production") {
   globalThis.prismaGlobal = prisma;
 }
+
+/**
+ * Runs raw queries on a dedicated connection and cancels the running
+ * statement in Postgres when the signal aborts, since Prisma itself cannot
+ * interrupt a query once it is sent.
+ */
+export async function withQueryAbort<T>(
+  abortSignal: AbortSignal | undefined,
+  query: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  if (!abortSignal) return query(prisma);
+
+  abortSignal.throwIfAborted();
+
+  return prisma.$transaction(
+    async (tx) => {
+      const [{ pid }] = await tx.$queryRaw<
+        { pid: number }[]
+      >`SELECT pg_backend_pid() AS pid`;
+
+      const cancelQuery = () => {
+        prisma.$queryRaw`SELECT pg_cancel_backend(${pid})`.catch((error) =>
+          console.error("Failed to cancel query", error)
+        );
+      };
+
+      abortSignal.addEventListener("abort", cancelQuery, { once: true });
+
+      try {
+        return await query(tx);
+      } finally {
+        abortSignal.removeEventListener("abort", cancelQuery);
+      }
+    },
+    { timeout: 60 * 1000 }
+  );
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import {
+  createTranslator,
+  DEFAULT_LOCALE,
+  Locale,
+  Translate,
+} from "@/lib/locales";
+import * as React from "react";
+
+const LocaleContext = React.createContext<Locale>(DEFAULT_LOCALE);
+
+export function LocaleProvider({
+  locale,
+  children,
+}: {
+  locale: Locale;
+  children: React.ReactNode;
+}) {
+  return (
+    <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>
+  );
+}
+
+export const useLocale = () => React.useContext(LocaleContext);
+
+export const useTranslation = (): Translate => {
+  const locale = useLocale();
+  return React.useMemo(() => createTranslator(locale), [locale]);
+};
@@ -0,0 +1,223 @@
+import { generateText, UIMessage } from "ai";
+
+import { verifyAnswer } from "@/lib/answer-verification";
+import {
+  createToolCallRepair,
+  getActiveTools,
+  getSystemPrompt,
+  resolveChatModel,
+} from "@/lib/chat-pipeline";
+import { stripCitations, withCitationIds } from "@/lib/citations";
+import { getNextCronRun } from "@/lib/cron";
+import { formatISODate } from "@/lib/date-range";
+import { sendEmail } from "@/lib/mailer";
+import { myProvider } from "@/lib/models";
+import prisma from "@/lib/prisma";
+import { acquireModelSlot } from "@/lib/request-queue";
+import { createToolCallLogger } from "@/lib/tool-call-logger";
+import {
+  generateUUID,
+  getAssistantMessageFromResponse,
+  ResponseMessage,
+} from "@/lib/utils";
+import { saveChat } from "@/services/chat";
+import { saveMessages } from "@/services/message";
+import { toolsMapping } from "@/services/tools";
+import { ScheduledReport } from "@prisma/client";
+
+const POLL_INTERVAL_MS = 60 * 1000;
+// A report that takes longer than this is abandoned rather than holding its
+// model slot.
+const MAX_RUN_MS = 10 * 60 * 1000;
+
+const reportRunnerSingleton = () => {
+  return {
+    interval: null as NodeJS.Timeout | null,
+    isPolling: false,
+  };
+};
+
+declare const globalThis: {
+  reportRunnerGlobal: ReturnType<typeof reportRunnerSingleton>;
+} & typeof global;
+
+const reportRunner = (globalThis.reportRunnerGlobal ??=
+  reportRunnerSingleton());
+
+/**
+ * Runs a saved report through the same model, prompt and tools as the chat
+ * UI and stores the answer as a new chat owned by the report's user. Emails
+ * the answer when the report has an address and SMTP is configured.
+ */
+export async function runScheduledReport(
+  report: ScheduledReport
+): Promise<string> {
+  const chatId = generateUUID();
+  const userId = report.userId.trim();
+  const ranAt = new Date();
+
+  await saveChat({
+    id: chatId,
+    userId,
+    title: `${report.title} (${formatISODate(ranAt)})`,
+    reportId: report.id,
+  });
+
+  const userMessage: UIMessage = {
+    id: generateUUID(),
+    role: "user",
+    content: report.prompt,
+    parts: [{ type: "text", text: report.prompt }],
+    createdAt: ranAt,
+  };
+
+  await saveMessages({
+    messages: [
+      {
+        id: userMessage.id,
+        chatId,
+        role: userMessage.role,
+        content: userMessage.content,
+        parts: userMessage.parts as any,
+        isCancelled: false,
+        model: null,
+        isAutoRouted: false,
+        promptVersionId: null,
+        hasUnverifiedClaims: false,
+        unverifiedClaims: null,
+        followUpQuestions: [],
+        createdAt: ranAt,
+        updatedAt: ranAt,
+      },
+    ],
+  });
+
+  const { chatModel, isAutoRouted } = await resolveChatModel({
+    selectedChatModel: report.model,
+    userQuery: report.prompt,
+  });
+  const { system, promptVersionId } = await getSystemPrompt({ chatModel });
+
+  const toolCallLogger = createToolCallLogger({ chatId });
+  const abortSignal = AbortSignal.timeout(MAX_RUN_MS);
+  const releaseModelSlot = await acquireModelSlot({
+    model: chatModel,
+    abortSignal,
+    onPositionChange: () => {},
+  });
+
+  let assistantMessage: UIMessage | undefined;
+
+  try {
+    const result = await generateText({
+      model: myProvider.languageModel(chatModel),
+      system,
+      messages: [userMessage],
+      maxSteps: 5,
+      abortSignal,
+      experimental_activeTools: getActiveTools(chatModel),
+      tools: toolCallLogger.wrapTools(withCitationIds(toolsMapping)),
+      experimental_repairToolCall: createToolCallRepair({
+        abortSignal,
+        toolCallLogger,
+      }),
+    });
+
+    // generateText leaves the message ids out of its types, but sets them.
+    const responseMessages = result.response.messages as Array<ResponseMessage>;
+    const verification = verifyAnswer({ messages: responseMessages });
+
+    assistantMessage = getAssistantMessageFromResponse({
+      userMessage,
+      messages: responseMessages,
+      reasoning: result.reasoning,
+    });
+
+    if (assistantMessage) {
+      await saveMessages({
+        messages: [
+          {
+            id: assistantMessage.id,
+            chatId,
+            role: assistantMessage.role,
+            content: assistantMessage.content,
+            parts: assistantMessage.parts as any,
+            isCancelled: false,
+            model: chatModel,
+            isAutoRouted,
+            promptVersionId,
+            hasUnverifiedClaims: verification.unsupportedClaims.length > 0,
+            unverifiedClaims: verification.unsupportedClaims,
+            followUpQuestions: [],
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          },
+        ],
+      });
+    }
+  } finally {
+    releaseModelSlot();
+    await toolCallLogger.flush({ messageId: assistantMessage?.id ?? null });
+  }
+
+  if (report.email && assistantMessage) {
+    const chatUrl = process.env.APP_URL
+      ? `\n\nOpen in IdealAgent: ${process.env.APP_URL}/chat/${chatId}`
+      : "";
+
+    try {
+      await sendEmail({
+        to: report.email,
+        subject: `${report.title} (${formatISODate(ranAt)})`,
+        text: `${stripCitations(assistantMessage.content)}${chatUrl}`,
+      });
+    } catch (error) {
+      console.error("Failed to email scheduled report", error);
+    }
+  }
+
+  return chatId;
+}
+
+async function runDueReports() {
+  if (reportRunner.isPolling) return;
+  reportRunner.isPolling = true;
+
+  try {
+    const now = new Date();
+    const dueReports = await prisma.scheduledReport.findMany({
+      where: { isEnabled: true, nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: "asc" },
+    });
+
+    for (const report of dueReports) {
+      // Moving nextRunAt first claims the run, so another server polling the
+      // same database does not run it twice.
+      const { count } = await prisma.scheduledReport.updateMany({
+        where: { id: report.id, nextRunAt: report.nextRunAt },
+        data: { lastRunAt: now, nextRunAt: getNextCronRun(report.cron, now) },
+      });
+      if (count === 0) continue;
+
+      try {
+        await runScheduledReport(report);
+      } catch (error) {
+        console.error(`Failed to run scheduled report ${report.id}`, error);
+      }
+    }
+  } catch (error) {
+    console.error("Failed to check scheduled reports", error);
+  } finally {
+    reportRunner.isPolling = false;
+  }
+}
+
+/**
+ * Starts polling for due reports once per server process.
+ */
+export function startReportRunner() {
+  if (reportRunner.interval) return;
+
+  reportRunner.interval = setInterval(runDueReports, POLL_INTERVAL_MS);
+  runDueReports();
+}
@@ -0,0 +1,169 @@
+type QueuedRequest = {
+  onPositionChange: (position: number) => void;
+  start: () => void;
+};
+
+type ModelQueue = {
+  running: number;
+  waiting: Array<QueuedRequest>;
+};
+
+const DEFAULT_MODEL_CONCURRENCY = Number(
+  process.env.OLLAMA_MAX_CONCURRENCY || 2
+);
+
+// The large models fill the GPU box on their own, so they run one at a time.
+const MODEL_CONCURRENCY: Record<string, number> = {
+  "deepseek-r1:70b": 1,
+  "llama3.3:latest": 1,
+  "qwen2.5:72b": 1,
+  "qwen2.5:32b": 1,
+  "small-model": 4,
+};
+
+// Safety net in case a generation never reports back, so a slot is not lost
+// for good.
+const MAX_SLOT_HOLD_MS = 5 * 60 * 1000;
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const RATE_LIMIT_PER_WINDOW = Number(
+  process.env.CHAT_RATE_LIMIT_PER_MINUTE || 10
+);
+
+const requestQueueSingleton = () => {
+  return {
+    models: new Map<string, ModelQueue>(),
+    userRequests: new Map<string, Array<number>>(),
+  };
+};
+
+declare const globalThis: {
+  requestQueueGlobal: ReturnType<typeof requestQueueSingleton>;
+} & typeof global;
+
+const requestQueue = (globalThis.requestQueueGlobal ??=
+  requestQueueSingleton());
+
+function getModelQueue(model: string): ModelQueue {
+  let modelQueue = requestQueue.models.get(model);
+
+  if (!modelQueue) {
+    modelQueue = { running: 0, waiting: [] };
+    requestQueue.models.set(model, modelQueue);
+  }
+
+  return modelQueue;
+}
+
+function getConcurrency(model: string) {
+  return MODEL_CONCURRENCY[model] ?? DEFAULT_MODEL_CONCURRENCY;
+}
+
+function notifyPositions(modelQueue: ModelQueue) {
+  modelQueue.waiting.forEach((request, index) =>
+    request.onPositionChange(index + 1)
+  );
+}
+
+function startNext(model: string) {
+  const modelQueue = getModelQueue(model);
+
+  while (
+    modelQueue.running < getConcurrency(model) &&
+    modelQueue.waiting.length > 0
+  ) {
+    const next = modelQueue.waiting.shift()!;
+    modelQueue.running++;
+    next.start();
+  }
+
+  notifyPositions(modelQueue);
+}
+
+/**
+ * Waits for a free generation slot on the model. `onPositionChange` reports
+ * the request's place in line while it waits and 0 once it starts. Resolves
+ * with a release function that must be called when the generation ends;
+ * calling it more than once is safe.
+ */
+export function acquireModelSlot({
+  model,
+  abortSignal,
+  onPositionChange,
+}: {
+  model: string;
+  abortSignal: AbortSignal;
+  onPositionChange: (position: number) => void;
+}): Promise<() => void> {
+  const modelQueue = getModelQueue(model);
+
+  return new Promise((resolve, reject) => {
+    if (abortSignal.aborted) {
+      reject(abortSignal.reason);
+      return;
+    }
+
+    const request: QueuedRequest = {
+      onPositionChange,
+      start: () => {
+        abortSignal.removeEventListener("abort", onAbort);
+
+        let isReleased = false;
+        const release = () => {
+          if (isReleased) return;
+          isReleased = true;
+          clearTimeout(timeout);
+          modelQueue.running--;
+          startNext(model);
+        };
+        const timeout = setTimeout(release, MAX_SLOT_HOLD_MS);
+
+        onPositionChange(0);
+        resolve(release);
+      },
+    };
+
+    const onAbort = () => {
+      const index = modelQueue.waiting.indexOf(request);
+      if (index === -1) return;
+
+      modelQueue.waiting.splice(index, 1);
+      notifyPositions(modelQueue);
+      reject(abortSignal.reason);
+    };
+
+    abortSignal.addEventListener("abort", onAbort, { once: true });
+
+    modelQueue.waiting.push(request);
+    startNext(model);
+  });
+}
+
+/**
+ * Sliding-window limit on chat requests per user. Returns how long to wait
+ * before retrying when the user is over the limit.
+ */
+export function checkRateLimit({ userId }: { userId: string }): {
+  isAllowed: boolean;
+  retryAfterSeconds: number;
+} {
+  const now = Date.now();
+  const requests = (requestQueue.userRequests.get(userId) ?? []).filter(
+    (timestamp) => now - timestamp < RATE_LIMIT_WINDOW_MS
+  );
+
+  if (requests.length >= RATE_LIMIT_PER_WINDOW) {
+    requestQueue.userRequests.set(userId, requests);
+    return {
+      isAllowed: false,
+      retryAfterSeconds: Math.ceil(
+        (requests[0] + RATE_LIMIT_WINDOW_MS - now) / 1000
+      ),
+    };
+  }
+
+  requests.push(now);
+  requestQueue.userRequests.set(userId, requests);
+
+  return { isAllowed: true, retryAfterSeconds: 0 };
+}
@@ -0,0 +1,52 @@
+// Wrapped around the matching words in search snippets by ts_headline. Control
+// characters never show up in chat text, so the snippet can be split on them
+// without escaping.
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_STOP = "\u0003";
+
+const MAX_QUERY_WORDS = 8;
+
+export type ChatSearchResult = {
+  chatId: string;
+  title: string;
+  // Null when only the chat title matched.
+  messageId: string | null;
+  snippet: string;
+  createdAt: Date;
+};
+
+/**
+ * Turns what the user typed into a tsquery that matches every word as a
+ * prefix, so results show up while the last word is still being typed.
+ * Returns null when there is no word to search for.
+ */
+export function toSearchQuery(text: string): string | null {
+  // Punctuation is dropped rather than escaped, it would not be indexed anyway.
+  const words = (
+    text.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g) ?? []
+  ).slice(0, MAX_QUERY_WORDS);
+
+  if (words.length === 0) return null;
+
+  return words.map((word) => `${word}:*`).join(" & ");
+}
+
+/**
+ * Splits a snippet into plain and highlighted pieces for rendering.
+ */
+export function splitSnippet(
+  snippet: string
+): Array<{ text: string; isMatch: boolean }> {
+  return snippet
+    .split(HIGHLIGHT_START)
+    .flatMap((piece, index) => {
+      if (index === 0) return [{ text: piece, isMatch: false }];
+
+      const [match, rest = ""] = piece.split(HIGHLIGHT_STOP);
+      return [
+        { text: match, isMatch: true },
+        { text: rest, isMatch: false },
+      ];
+    })
+    .filter((piece) => piece.text !== "");
+}
@@ -0,0 +1,145 @@
+type ActiveStream = {
+  chunks: Array<string>;
+  isDone: boolean;
+  subscribers: Set<ReadableStreamDefaultController<string>>;
+  abortController: AbortController;
+};
+
+// How long a finished stream stays replayable, so a client reconnecting right
+// as the answer completes still receives it before it shows up in the database.
+const FINISHED_STREAM_TTL_MS = 60 * 1000;
+
+const streamStoreSingleton = () => {
+  return new Map<string, ActiveStream>();
+};
+
+declare const globalThis: {
+  streamStoreGlobal: ReturnType<typeof streamStoreSingleton>;
+} & typeof global;
+
+// Kept on globalThis in every environment so the chat route and the resume
+// route, which are bundled separately, share the same buffers.
+const streamStore = (globalThis.streamStoreGlobal ??= streamStoreSingleton());
+
+function subscribe(activeStream: ActiveStream): ReadableStream<string> {
+  let subscriber: ReadableStreamDefaultController<string> | null = null;
+
+  return new ReadableStream<string>({
+    start(controller) {
+      for (const chunk of activeStream.chunks) {
+        controller.enqueue(chunk);
+      }
+
+      if (activeStream.isDone) {
+        controller.close();
+        return;
+      }
+
+      subscriber = controller;
+      activeStream.subscribers.add(controller);
+    },
+    cancel() {
+      if (subscriber) activeStream.subscribers.delete(subscriber);
+    },
+  });
+}
+
+/**
+ * Consumes the data stream on the server, independently of the client, while
+ * buffering every chunk under the chat id. The returned stream replays the
+ * buffer for the current request; disconnecting from it does not stop the
+ * generation.
+ */
+export function createResumableStream({
+  chatId,
+  stream,
+  abortController,
+}: {
+  chatId: string;
+  stream: ReadableStream<string>;
+  abortController: AbortController;
+}): ReadableStream<string> {
+  const activeStream: ActiveStream = {
+    chunks: [],
+    isDone: false,
+    subscribers: new Set(),
+    abortController,
+  };
+
+  streamStore.set(chatId, activeStream);
+
+  const pump = async () => {
+    const reader = stream.getReader();
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        activeStream.chunks.push(value);
+        activeStream.subscribers.forEach((subscriber) => {
+          try {
+            subscriber.enqueue(value);
+          } catch {
+            activeStream.subscribers.delete(subscriber);
+          }
+        });
+      }
+    } catch (error) {
+      console.error("Failed to read chat stream", error);
+    } finally {
+      activeStream.isDone = true;
+      activeStream.subscribers.forEach((subscriber) => {
+        try {
+          subscriber.close();
+        } catch {}
+      });
+      activeStream.subscribers.clear();
+
+      setTimeout(() => {
+        if (streamStore.get(chatId) === activeStream) {
+          streamStore.delete(chatId);
+        }
+      }, FINISHED_STREAM_TTL_MS);
+    }
+  };
+
+  pump();
+
+  return subscribe(activeStream);
+}
+
+export function resumeStream({
+  chatId,
+}: {
+  chatId: string;
+}): ReadableStream<string> | null {
+  const activeStream = streamStore.get(chatId);
+
+  if (!activeStream) return null;
+
+  return subscribe(activeStream);
+}
+
+/**
+ * Stops the generation behind the chat's stream, e.g. when the user presses
+ * Stop. Returns false when nothing is generating.
+ */
+export function cancelStream({ chatId }: { chatId: string }): boolean {
+  const activeStream = streamStore.get(chatId);
+
+  if (!activeStream || activeStream.isDone) return false;
+
+  activeStream.abortController.abort();
+
+  return true;
+}
+
+export function toDataStreamResponse(stream: ReadableStream<string>) {
+  return new Response(stream.pipeThrough(new TextEncoderStream()), {
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "X-Vercel-AI-Data-Stream": "v1",
+    },
+  });
+}
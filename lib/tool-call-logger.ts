@@ -0,0 +1,128 @@
+import prisma from "@/lib/prisma";
+import { mapToolExecute } from "@/lib/tools";
+import { Prisma } from "@prisma/client";
+
+type ToolCallLogEntry = {
+  toolCallId: string;
+  toolName: string;
+  args?: unknown;
+  repairedArgs?: unknown;
+  durationMs?: number;
+  errorClass?: string;
+  errorMessage?: string;
+  resultLength?: number;
+};
+
+type RepairableToolCall = {
+  toolCallId: string;
+  toolName: string;
+  args: string;
+};
+
+function parseToolArgs(args: string): unknown {
+  try {
+    return JSON.parse(args);
+  } catch {
+    return args;
+  }
+}
+
+function getErrorClass(error: unknown): string {
+  if (error instanceof Error) return error.name || error.constructor.name;
+  return typeof error;
+}
+
+function getResultLength(result: unknown): number {
+  if (typeof result === "string") return result.length;
+  return JSON.stringify(result ?? null)?.length ?? 0;
+}
+
+/**
+ * Collects one audit entry per tool call during a chat generation, including
+ * calls that needed repair or never ran, and writes them once the assistant
+ * message they belong to has been saved.
+ */
+export function createToolCallLogger({ chatId }: { chatId: string }) {
+  const entries = new Map<string, ToolCallLogEntry>();
+  const flushed = new Set<string>();
+
+  const getEntry = (toolCallId: string, toolName: string) => {
+    let entry = entries.get(toolCallId);
+
+    if (!entry) {
+      entry = { toolCallId, toolName };
+      entries.set(toolCallId, entry);
+    }
+
+    return entry;
+  };
+
+  const wrapTools = <T extends Record<string, any>>(tools: T): T =>
+    mapToolExecute(tools, (execute, toolName) => async (args, options) => {
+      const entry = getEntry(options.toolCallId, toolName);
+      if (entry.args === undefined) entry.args = args;
+
+      const startedAt = performance.now();
+
+      try {
+        const result = await execute(args, options);
+        entry.resultLength = getResultLength(result);
+        return result;
+      } catch (error) {
+        entry.errorClass = getErrorClass(error);
+        entry.errorMessage =
+          error instanceof Error ? error.message : String(error);
+        throw error;
+      } finally {
+        entry.durationMs = Math.round(performance.now() - startedAt);
+      }
+    });
+
+  const recordRepair = ({
+    toolCall,
+    error,
+    repairedArgs,
+  }: {
+    toolCall: RepairableToolCall;
+    error: unknown;
+    repairedArgs?: unknown;
+  }) => {
+    const entry = getEntry(toolCall.toolCallId, toolCall.toolName);
+
+    entry.args = parseToolArgs(toolCall.args);
+    entry.errorClass = getErrorClass(error);
+    entry.errorMessage = error instanceof Error ? error.message : String(error);
+    if (repairedArgs !== undefined) entry.repairedArgs = repairedArgs;
+  };
+
+  const flush = async ({ messageId }: { messageId: string | null }) => {
+    const pending = Array.from(entries.values()).filter(
+      (entry) => !flushed.has(entry.toolCallId)
+    );
+
+    if (pending.length === 0) return;
+
+    pending.forEach((entry) => flushed.add(entry.toolCallId));
+
+    try {
+      await prisma.toolCallLog.createMany({
+        data: pending.map((entry) => ({
+          chatId,
+          messageId,
+          toolCallId: entry.toolCallId,
+          toolName: entry.toolName,
+          args: entry.args as Prisma.InputJsonValue | undefined,
+          repairedArgs: entry.repairedArgs as Prisma.InputJsonValue | undefined,
+          durationMs: entry.durationMs,
+          errorClass: entry.errorClass,
+          errorMessage: entry.errorMessage,
+          resultLength: entry.resultLength,
+        })),
+      });
+    } catch (error) {
+      console.error("Failed to save tool call logs in database");
+    }
+  };
+
+  return { wrapTools, recordRepair, flush };
+}
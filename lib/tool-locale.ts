@@ -0,0 +1,33 @@
+import { ToolExecutionOptions } from "ai";
+
+import { createTranslator, DEFAULT_LOCALE, Locale } from "@/lib/locales";
+import { mapToolExecute } from "@/lib/tools";
+
+type ToolLocaleOptions = ToolExecutionOptions & {
+  locale?: Locale;
+};
+
+/**
+ * Passes the language of the conversation to every tool's execute options,
+ * so tool results and progress steps are written in it. Tool arguments are
+ * not affected.
+ */
+export function withToolLocale<T extends Record<string, any>>(
+  tools: T,
+  locale: Locale
+): T {
+  return mapToolExecute(tools, (execute) => (args, options) => {
+    const localeOptions: ToolLocaleOptions = { ...options, locale };
+    return execute(args, localeOptions);
+  });
+}
+
+/**
+ * Returns the translator for a tool call, in English when the tool runs
+ * outside a chat, e.g. for scheduled reports and evals.
+ */
+export function getToolTranslator(options: ToolExecutionOptions) {
+  return createTranslator(
+    (options as ToolLocaleOptions).locale ?? DEFAULT_LOCALE
+  );
+}
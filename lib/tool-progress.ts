@@ -0,0 +1,35 @@
+import { ToolExecutionOptions } from "ai";
+
+import { mapToolExecute } from "@/lib/tools";
+
+type ToolProgressOptions = ToolExecutionOptions & {
+  onProgress?: (step: string) => void;
+};
+
+/**
+ * Passes an `onProgress` callback to every tool's execute options, so long
+ * tool runs can report steps such as "aggregating batch 2/4" while they work.
+ */
+export function withToolProgress<T extends Record<string, any>>(
+  tools: T,
+  onProgress: (progress: { toolCallId: string; step: string }) => void
+): T {
+  return mapToolExecute(tools, (execute) => (args, options) => {
+    const progressOptions: ToolProgressOptions = {
+      ...options,
+      onProgress: (step) =>
+        onProgress({ toolCallId: options.toolCallId, step }),
+    };
+    return execute(args, progressOptions);
+  });
+}
+
+/**
+ * Returns the progress reporter for a tool call, or a no-op when the tool
+ * runs outside a chat stream.
+ */
+export function getProgressReporter(
+  options: ToolExecutionOptions
+): (step: string) => void {
+  return (options as ToolProgressOptions).onProgress ?? (() => {});
+}
@@ -0,0 +1,209 @@
+import {
+  ZodArray,
+  ZodBoolean,
+  ZodDefault,
+  ZodDiscriminatedUnion,
+  ZodEffects,
+  ZodEnum,
+  ZodNativeEnum,
+  ZodNullable,
+  ZodNumber,
+  ZodObject,
+  ZodOptional,
+  ZodString,
+  ZodTypeAny,
+  ZodUnion,
+} from "zod";
+
+// Words the models use in place of the enum values our tools accept.
+const ENUM_SYNONYMS: Record<string, string[]> = {
+  TOTAL_SALES: ["sales", "total", "revenue", "amount", "totalsales"],
+  COUNT: ["number", "transactions", "frequency"],
+  QUANTITY: ["qty", "units", "volume"],
+  DAY: ["daily", "days"],
+  WEEK: ["weekly", "weeks"],
+  MONTH: ["monthly", "months"],
+  ASC: ["ascending", "lowest", "bottom"],
+  DESC: ["descending", "highest", "top"],
+  STATE: ["region", "location", "area"],
+  ITEM: ["product", "items", "products"],
+  PAYMENT_METHOD: ["payment", "paymentmethods"],
+};
+
+const normalize = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+class RepairFailed extends Error {}
+
+function parseArgs(args: unknown): unknown {
+  if (typeof args !== "string") return args;
+
+  try {
+    return JSON.parse(args);
+  } catch {
+    const match = args.match(/\{[\s\S]*\}/);
+    if (!match) throw new RepairFailed("Arguments are not JSON");
+
+    try {
+      return JSON.parse(match[0]);
+    } catch {
+      throw new RepairFailed("Arguments are not JSON");
+    }
+  }
+}
+
+function unwrapEnvelope(value: unknown): unknown {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return value;
+  }
+
+  const keys = Object.keys(value);
+  const isEnvelope =
+    "value" in value &&
+    keys.every((key) => ["type", "value", "description"].includes(key));
+
+  return isEnvelope
+    ? unwrapEnvelope((value as { value: unknown }).value)
+    : value;
+}
+
+function matchEnumValue(options: string[], value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  if (options.includes(value)) return value;
+
+  const normalized = normalize(value);
+
+  const direct = options.find((option) => normalize(option) === normalized);
+  if (direct) return direct;
+
+  const synonym = options.find((option) =>
+    ENUM_SYNONYMS[option]?.includes(normalized)
+  );
+  if (synonym) return synonym;
+
+  throw new RepairFailed(`"${value}" is not one of ${options.join(", ")}`);
+}
+
+function findShapeKey(shape: Record<string, ZodTypeAny>, key: string) {
+  if (key in shape) return key;
+  return Object.keys(shape).find(
+    (shapeKey) => normalize(shapeKey) === normalize(key)
+  );
+}
+
+function coerce(schema: ZodTypeAny, rawValue: unknown): unknown {
+  const value = unwrapEnvelope(rawValue);
+
+  if (schema instanceof ZodEffects) {
+    return coerce(schema.innerType(), value);
+  }
+
+  if (
+    schema instanceof ZodOptional ||
+    schema instanceof ZodNullable ||
+    schema instanceof ZodDefault
+  ) {
+    if (value === undefined || value === null || value === "") return undefined;
+    if (value === "null" || value === "None") return undefined;
+    return coerce(
+      schema instanceof ZodDefault ? schema.removeDefault() : schema.unwrap(),
+      value
+    );
+  }
+
+  if (schema instanceof ZodObject) {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new RepairFailed("Expected an object");
+    }
+
+    const shape = schema.shape as Record<string, ZodTypeAny>;
+    const result: Record<string, unknown> = {};
+
+    for (const [key, fieldValue] of Object.entries(value)) {
+      const shapeKey = findShapeKey(shape, key);
+      if (!shapeKey) continue;
+
+      const coerced = coerce(shape[shapeKey], fieldValue);
+      if (coerced !== undefined) result[shapeKey] = coerced;
+    }
+
+    return result;
+  }
+
+  if (schema instanceof ZodNumber) {
+    if (typeof value === "string") {
+      const parsed = Number(value.replace(/rm|,/gi, "").trim());
+      if (value.trim() === "" || Number.isNaN(parsed)) {
+        throw new RepairFailed(`"${value}" is not a number`);
+      }
+      return parsed;
+    }
+    return value;
+  }
+
+  if (schema instanceof ZodString) {
+    return typeof value === "number" ? String(value) : value;
+  }
+
+  if (schema instanceof ZodBoolean) {
+    if (value === "true") return true;
+    if (value === "false") return false;
+    return value;
+  }
+
+  if (schema instanceof ZodEnum) {
+    return matchEnumValue(schema.options, value);
+  }
+
+  if (schema instanceof ZodNativeEnum) {
+    return matchEnumValue(
+      Object.values(schema.enum).filter(
+        (option): option is string => typeof option === "string"
+      ),
+      value
+    );
+  }
+
+  if (schema instanceof ZodArray) {
+    const items = Array.isArray(value) ? value : [value];
+    return items.map((item) => coerce(schema.element, item));
+  }
+
+  if (schema instanceof ZodUnion || schema instanceof ZodDiscriminatedUnion) {
+    const options: ZodTypeAny[] =
+      schema instanceof ZodUnion ? schema.options : [...schema.options];
+
+    for (const option of options) {
+      try {
+        const coerced = coerce(option, value);
+        if (option.safeParse(coerced).success) return coerced;
+      } catch {}
+    }
+
+    throw new RepairFailed("No union option matches");
+  }
+
+  return value;
+}
+
+/**
+ * Repairs tool arguments by walking the tool's Zod schema: unwraps
+ * `{ type, value }` envelopes, coerces numeric strings, maps enum synonyms
+ * and drops unknown keys. Returns null when the result still does not
+ * validate, so the caller can fall back to the model.
+ */
+export function repairToolArgs(
+  schema: ZodTypeAny,
+  args: unknown
+): Record<string, unknown> | null {
+  try {
+    const repairedArgs = coerce(schema, parseArgs(args));
+
+    if (!schema.safeParse(repairedArgs).success) return null;
+
+    return repairedArgs as Record<string, unknown>;
+  } catch (error) {
+    if (error instanceof RepairFailed) return null;
+    throw error;
+  }
+}
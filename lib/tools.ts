@@ -1,3 +1,5 @@
+import { ToolExecutionOptions } from "ai";
+
 type ListOfTools = Record<string, { description: string }>;
 
 export const listOfTools: ListOfTools = {
@@ -66,3 +68,34 @@ export const listOfTools: ListOfTools = {
   //     "Test search query based on provided filters. Returns the count of matching records and a sample of records. Confirm with the user if the results meet expectations before proceeding with full aggregation.",
   // },
 };
+
+export type ToolExecute = (
+  args: any,
+  options: ToolExecutionOptions
+) => PromiseLike<unknown>;
+
+/**
+ * Returns a copy of the tools with every execute function replaced by what
+ * `wrap` builds around it. Tools without an execute function are kept as is.
+ */
+export function mapToolExecute<T extends Record<string, any>>(
+  tools: T,
+  wrap: (execute: ToolExecute, toolName: string) => ToolExecute
+): T {
+  const wrappedTools = {} as Record<string, any>;
+
+  for (const [toolName, tool] of Object.entries(tools)) {
+    wrappedTools[toolName] =
+      typeof tool.execute === "function"
+        ? {
+            ...tool,
+            execute: wrap(
+              (args, options) => tool.execute(args, options),
+              toolName
+            ),
+          }
+        : tool;
+  }
+
+  return wrappedTools as T;
+}
@@ -0,0 +1,184 @@
+import { appendFile, mkdir, readFile } from "fs/promises";
+import { dirname } from "path";
+
+import prisma from "@/lib/prisma";
+import { TRACED_ROOT_SPANS } from "@/lib/tracing";
+import { context, SpanStatusCode } from "@opentelemetry/api";
+import {
+  ExportResultCode,
+  hrTimeToMilliseconds,
+  suppressTracing,
+} from "@opentelemetry/core";
+import { registerInstrumentations } from "@opentelemetry/instrumentation";
+import {
+  BatchSpanProcessor,
+  ParentBasedSampler,
+  ReadableSpan,
+  SamplingDecision,
+  SpanExporter,
+} from "@opentelemetry/sdk-trace-base";
+import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
+import { PrismaInstrumentation } from "@prisma/instrumentation";
+import { Prisma, TraceSpan } from "@prisma/client";
+
+export type TraceSpanRecord = Omit<TraceSpan, "createdAt">;
+
+// Prompts and tool results end up in attributes, keep them readable but small.
+const MAX_ATTRIBUTE_LENGTH = 2000;
+const RETENTION_DAYS = Number(process.env.TRACE_RETENTION_DAYS || 14);
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export const TRACE_FILE = process.env.TRACE_FILE || ".traces/spans.jsonl";
+
+const traceExporterSingleton = () => {
+  return {
+    isRegistered: false,
+    lastPrunedAt: 0,
+  };
+};
+
+declare const globalThis: {
+  traceExporterGlobal: ReturnType<typeof traceExporterSingleton>;
+} & typeof global;
+
+const traceExporter = (globalThis.traceExporterGlobal ??=
+  traceExporterSingleton());
+
+function toTraceSpanRecord(span: ReadableSpan): TraceSpanRecord {
+  const attributes = Object.fromEntries(
+    Object.entries(span.attributes).map(([key, value]) => [
+      key,
+      typeof value === "string" && value.length > MAX_ATTRIBUTE_LENGTH
+        ? `${value.slice(0, MAX_ATTRIBUTE_LENGTH)}…`
+        : value,
+    ])
+  );
+  const chatId = span.attributes["chat.id"];
+
+  return {
+    id: span.spanContext().spanId,
+    traceId: span.spanContext().traceId,
+    parentSpanId: span.parentSpanId ?? null,
+    name: span.name,
+    chatId: typeof chatId === "string" ? chatId : null,
+    startTime: new Date(hrTimeToMilliseconds(span.startTime)),
+    durationMs: hrTimeToMilliseconds(span.duration),
+    error:
+      span.status.code === SpanStatusCode.ERROR
+        ? span.status.message || "Error"
+        : null,
+    attributes: attributes as Prisma.JsonObject,
+  };
+}
+
+function createSpanExporter(
+  write: (records: Array<TraceSpanRecord>) => Promise<unknown>
+): SpanExporter {
+  return {
+    export(spans, resultCallback) {
+      // Writing the spans must not create spans of its own.
+      context
+        .with(suppressTracing(context.active()), () =>
+          write(spans.map(toTraceSpanRecord))
+        )
+        .then(
+          () => resultCallback({ code: ExportResultCode.SUCCESS }),
+          (error) => {
+            console.error("Failed to export trace spans", error);
+            resultCallback({ code: ExportResultCode.FAILED, error });
+          }
+        );
+    },
+    async shutdown() {},
+  };
+}
+
+async function writeSpansToDatabase(records: Array<TraceSpanRecord>) {
+  await prisma.traceSpan.createMany({
+    data: records.map((record) => ({
+      ...record,
+      attributes: record.attributes ?? undefined,
+    })),
+    skipDuplicates: true,
+  });
+
+  if (Date.now() - traceExporter.lastPrunedAt > PRUNE_INTERVAL_MS) {
+    traceExporter.lastPrunedAt = Date.now();
+    await prisma.traceSpan.deleteMany({
+      where: {
+        startTime: {
+          lt: new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000),
+        },
+      },
+    });
+  }
+}
+
+async function writeSpansToFile(records: Array<TraceSpanRecord>) {
+  await mkdir(dirname(TRACE_FILE), { recursive: true });
+  await appendFile(
+    TRACE_FILE,
+    records.map((record) => `${JSON.stringify(record)}\n`).join("")
+  );
+}
+
+/**
+ * Reads the spans written in file mode, oldest first.
+ */
+export async function readSpansFromFile(): Promise<Array<TraceSpanRecord>> {
+  let content: string;
+
+  try {
+    content = await readFile(TRACE_FILE, "utf8");
+  } catch {
+    return [];
+  }
+
+  return content
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => {
+      const record = JSON.parse(line);
+      return { ...record, startTime: new Date(record.startTime) };
+    });
+}
+
+export const isFileTraceExporter = () => process.env.TRACE_EXPORTER === "file";
+
+/**
+ * Records LLM calls, tool executions and Prisma queries under the traced
+ * root spans, writing them to Postgres or, with TRACE_EXPORTER=file, to
+ * TRACE_FILE as JSON lines. TRACE_EXPORTER=none turns tracing off.
+ */
+export function registerTracing() {
+  if (traceExporter.isRegistered || process.env.TRACE_EXPORTER === "none") {
+    return;
+  }
+  traceExporter.isRegistered = true;
+
+  const provider = new NodeTracerProvider({
+    sampler: new ParentBasedSampler({
+      root: {
+        shouldSample: (_context, _traceId, spanName) => ({
+          decision: TRACED_ROOT_SPANS.includes(spanName)
+            ? SamplingDecision.RECORD_AND_SAMPLED
+            : SamplingDecision.NOT_RECORD,
+        }),
+        toString: () => "TracedRootSpanSampler",
+      },
+    }),
+    spanProcessors: [
+      new BatchSpanProcessor(
+        createSpanExporter(
+          isFileTraceExporter() ? writeSpansToFile : writeSpansToDatabase
+        )
+      ),
+    ],
+  });
+
+  provider.register();
+  registerInstrumentations({
+    tracerProvider: provider,
+    instrumentations: [new PrismaInstrumentation()],
+  });
+}
@@ -0,0 +1,126 @@
+import { TraceSpanRecord } from "@/lib/trace-exporter";
+
+export type SpanCategory = "llm" | "tool" | "embedding" | "sql" | "other";
+
+export type WaterfallRow = {
+  span: TraceSpanRecord;
+  depth: number;
+  category: SpanCategory;
+  // Position of the bar as a percentage of the whole trace.
+  offsetPercent: number;
+  widthPercent: number;
+};
+
+export const SPAN_CATEGORY_LABELS: Record<SpanCategory, string> = {
+  llm: "Model",
+  tool: "Tools",
+  embedding: "Embeddings",
+  sql: "SQL",
+  other: "Other",
+};
+
+export function getSpanCategory(name: string): SpanCategory {
+  if (name.startsWith("prisma:")) return "sql";
+  if (name === "ai.toolCall") return "tool";
+  if (name.startsWith("ai.embed")) return "embedding";
+  if (name.startsWith("ai.")) return "llm";
+  return "other";
+}
+
+const endTime = (span: TraceSpanRecord) =>
+  span.startTime.getTime() + span.durationMs;
+
+/**
+ * Orders the spans depth first, children by start time, with each bar placed
+ * relative to the start and end of the whole trace.
+ */
+export function buildWaterfall(
+  spans: Array<TraceSpanRecord>
+): Array<WaterfallRow> {
+  if (spans.length === 0) return [];
+
+  const ids = new Set(spans.map((span) => span.id));
+  const traceStart = Math.min(...spans.map((span) => span.startTime.getTime()));
+  const traceDuration = Math.max(
+    1,
+    Math.max(...spans.map(endTime)) - traceStart
+  );
+
+  const childrenOf = (parentSpanId: string | null) =>
+    spans
+      .filter((span) =>
+        parentSpanId === null
+          ? span.parentSpanId === null || !ids.has(span.parentSpanId)
+          : span.parentSpanId === parentSpanId
+      )
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+  const rows: Array<WaterfallRow> = [];
+  const visit = (span: TraceSpanRecord, depth: number) => {
+    rows.push({
+      span,
+      depth,
+      category: getSpanCategory(span.name),
+      offsetPercent:
+        ((span.startTime.getTime() - traceStart) / traceDuration) * 100,
+      widthPercent: (span.durationMs / traceDuration) * 100,
+    });
+    childrenOf(span.id).forEach((child) => visit(child, depth + 1));
+  };
+  childrenOf(null).forEach((span) => visit(span, 0));
+
+  return rows;
+}
+
+// Total length of the intervals, counting overlapping parts once.
+function coveredMs(intervals: Array<[number, number]>) {
+  let total = 0;
+  let coveredUntil = -Infinity;
+
+  intervals
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([start, end]) => {
+      if (end > coveredUntil) {
+        total += end - Math.max(start, coveredUntil);
+        coveredUntil = end;
+      }
+    });
+
+  return total;
+}
+
+/**
+ * Adds up the self time of the spans per category, i.e. each span's duration
+ * minus the time covered by its children. A tool call that spends most of its
+ * time in SQL then counts as SQL, not as both.
+ */
+export function summarizeTimeByCategory(
+  spans: Array<TraceSpanRecord>
+): Record<SpanCategory, number> {
+  const totals: Record<SpanCategory, number> = {
+    llm: 0,
+    tool: 0,
+    embedding: 0,
+    sql: 0,
+    other: 0,
+  };
+
+  spans.forEach((span) => {
+    const start = span.startTime.getTime();
+    const end = endTime(span);
+    const children = spans
+      .filter((child) => child.parentSpanId === span.id)
+      .map((child): [number, number] => [
+        Math.max(start, child.startTime.getTime()),
+        Math.min(end, endTime(child)),
+      ])
+      .filter(([childStart, childEnd]) => childEnd > childStart);
+
+    totals[getSpanCategory(span.name)] += Math.max(
+      0,
+      span.durationMs - coveredMs(children)
+    );
+  });
+
+  return totals;
+}
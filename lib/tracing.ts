@@ -0,0 +1,73 @@
+import { Span, SpanStatusCode, trace } from "@opentelemetry/api";
+
+export const tracer = trace.getTracer("idealagent");
+
+// Only traces starting with one of these spans are recorded, along with
+// everything under them. Other requests and background queries are dropped.
+export const TRACED_ROOT_SPANS = ["chat.request"];
+
+function endSpanWithError(span: Span, error: unknown) {
+  span.recordException(error instanceof Error ? error : String(error));
+  span.setStatus({
+    code: SpanStatusCode.ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+  span.end();
+}
+
+/**
+ * Runs a route handler inside a new root span. For streamed responses the
+ * span ends when the body finishes or the client goes away, so it covers the
+ * whole answer rather than the time to the first byte.
+ */
+export function withRequestSpan(
+  name: string,
+  handler: (span: Span) => Promise<Response>
+): Promise<Response> {
+  return tracer.startActiveSpan(name, { root: true }, async (span) => {
+    let response: Response;
+
+    try {
+      response = await handler(span);
+    } catch (error) {
+      endSpanWithError(span, error);
+      throw error;
+    }
+
+    span.setAttribute("http.status_code", response.status);
+
+    if (!response.body) {
+      span.end();
+      return response;
+    }
+
+    const reader = response.body.getReader();
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await reader.read();
+
+          if (done) {
+            span.end();
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          endSpanWithError(span, error);
+          controller.error(error);
+        }
+      },
+      cancel(reason) {
+        span.end();
+        return reader.cancel(reason);
+      },
+    });
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  });
+}
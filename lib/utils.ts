@@ -1,7 +1,15 @@
+import type { UnsupportedClaim } from "@/lib/answer-verification";
+import {
+  getMessageParts,
+  parsePartialJson,
+  processDataStream,
+} from "@ai-sdk/ui-utils";
 import { Message as DBMessage } from "@prisma/client";
 import {
+  appendResponseMessages,
   CoreAssistantMessage,
   CoreToolMessage,
+  JSONValue,
   Message,
   ToolInvocation,
   UIMessage,
@@ -81,13 +89,12 @@ function addToolMessageToChat({
   messages,
 }: {
   toolMessage: CoreToolMessage;
-  messages: Array<Message>;
-}): Array<Message> {
+  messages: Array<UIMessage>;
+}): Array<UIMessage> {
   return messages.map((message) => {
     if (message.toolInvocations) {
-      return {
-        ...message,
-        toolInvocations: message.toolInvocations.map((toolInvocation) => {
+      const toolInvocations = message.toolInvocations.map(
+        (toolInvocation): ToolInvocation => {
           const toolResult = toolMessage.content.find(
             (tool) => tool.toolCallId === toolInvocation.toolCallId
           );
@@ -101,6 +108,21 @@ function addToolMessageToChat({
           }
 
           return toolInvocation;
+        }
+      );
+
+      return {
+        ...message,
+        toolInvocations,
+        parts: message.parts.map((part) => {
+          if (part.type !== "tool-invocation") return part;
+
+          const toolInvocation = toolInvocations.find(
+            (invocation) =>
+              invocation.toolCallId === part.toolInvocation.toolCallId
+          );
+
+          return toolInvocation ? { ...part, toolInvocation } : part;
         }),
       };
     }
@@ -109,33 +131,176 @@ function addToolMessageToChat({
   });
 }
 
+function getPartsFromCoreContent(content: Array<any>): UIMessage["parts"] {
+  const parts: UIMessage["parts"] = [];
+
+  for (const part of content) {
+    if (!part) break;
+    if (part.type === "text") {
+      parts.push({ type: "text", text: part.text });
+    } else if (part.type === "reasoning") {
+      parts.unshift({ type: "reasoning", reasoning: part.reasoning });
+    } else if (part.type === "tool-call") {
+      parts.push({
+        type: "tool-invocation",
+        toolInvocation: {
+          state: "call",
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          args: part.args,
+        },
+      });
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * Extra details attached to a message, streamed as message annotations and
+ * rebuilt from the database when a chat is reopened.
+ */
+export type MessageAnnotation =
+  | { type: "cancelled" }
+  | { type: "model"; modelId: string; isAutoRouted: boolean }
+  | { type: "verification"; unsupportedClaims: Array<UnsupportedClaim> }
+  | { type: "tool-progress"; toolCallId: string; step: string }
+  | { type: "follow-ups"; questions: Array<string> };
+
+export function getMessageAnnotation<T extends MessageAnnotation["type"]>(
+  message: Message,
+  type: T
+): Extract<MessageAnnotation, { type: T }> | undefined {
+  return message.annotations?.find(
+    (annotation) =>
+      typeof annotation === "object" &&
+      annotation !== null &&
+      !Array.isArray(annotation) &&
+      annotation.type === type
+  ) as Extract<MessageAnnotation, { type: T }> | undefined;
+}
+
+export function getMessageAnnotations<T extends MessageAnnotation["type"]>(
+  message: Message,
+  type: T
+): Array<Extract<MessageAnnotation, { type: T }>> {
+  return (message.annotations ?? []).filter(
+    (annotation) =>
+      typeof annotation === "object" &&
+      annotation !== null &&
+      !Array.isArray(annotation) &&
+      annotation.type === type
+  ) as Array<Extract<MessageAnnotation, { type: T }>>;
+}
+
+/**
+ * Data parts streamed next to the messages rather than attached to one, such
+ * as the request's place in the model queue.
+ */
+export type StreamDataPart = { type: "queue-position"; position: number };
+
+export function getLatestStreamData<T extends StreamDataPart["type"]>(
+  data: Array<JSONValue> | undefined,
+  type: T
+): Extract<StreamDataPart, { type: T }> | undefined {
+  return data?.findLast(
+    (part) =>
+      typeof part === "object" &&
+      part !== null &&
+      !Array.isArray(part) &&
+      part.type === type
+  ) as Extract<StreamDataPart, { type: T }> | undefined;
+}
+
+function getAnnotationsFromDBMessage(
+  message: DBMessage
+): Array<MessageAnnotation> {
+  const annotations: Array<MessageAnnotation> = [];
+
+  if (message.isCancelled) annotations.push({ type: "cancelled" });
+  if (message.model) {
+    annotations.push({
+      type: "model",
+      modelId: message.model,
+      isAutoRouted: message.isAutoRouted,
+    });
+  }
+  if (message.hasUnverifiedClaims) {
+    annotations.push({
+      type: "verification",
+      unsupportedClaims: (message.unverifiedClaims ??
+        []) as Array<UnsupportedClaim>,
+    });
+  }
+  if (message.followUpQuestions.length > 0) {
+    annotations.push({
+      type: "follow-ups",
+      questions: message.followUpQuestions,
+    });
+  }
+
+  return annotations;
+}
+
 export function convertToUIMessages(
   messages: Array<DBMessage>
-): Array<Message> {
-  return messages.reduce((chatMessages: Array<Message>, message) => {
-    let textContent = "";
-    let reasoning: string | undefined = undefined;
-    const toolInvocations: Array<ToolInvocation> = [];
+): Array<UIMessage> {
+  return messages.reduce((chatMessages: Array<UIMessage>, message) => {
+    // Older chats saved tool results as separate rows.
+    if (message.role === "tool") {
+      return addToolMessageToChat({
+        toolMessage: {
+          role: "tool",
+          content: message.content,
+        } as unknown as CoreToolMessage,
+        messages: chatMessages,
+      });
+    }
+
+    let parts: UIMessage["parts"] = [];
 
     if (typeof message.content === "string") {
-      textContent = message.content;
-    } else if (Array.isArray(message.content)) {
-      for (const content of message.content as any) {
-        if (!content) break;
-        if (content.type === "text") {
-          textContent += content.text;
-        } else if (content.type === "reasoning") {
-          reasoning = content.reasoning;
-        }
+      parts = Array.isArray(message.parts)
+        ? (message.parts as UIMessage["parts"])
+        : [];
+      if (parts.length === 0 && message.content !== "") {
+        parts = [{ type: "text", text: message.content }];
       }
+    } else if (Array.isArray(message.content)) {
+      // Older chats only kept the core message content, one row per step.
+      parts = getPartsFromCoreContent(message.content);
+    }
+
+    const lastMessage = chatMessages.at(-1);
+
+    let annotations = getAnnotationsFromDBMessage(message);
+
+    if (lastMessage?.role === "assistant" && message.role === "assistant") {
+      parts = [...lastMessage.parts, ...parts];
+      annotations = [
+        ...((lastMessage.annotations ?? []) as Array<MessageAnnotation>),
+        ...annotations,
+      ];
+      chatMessages.pop();
     }
 
+    const reasoning = parts
+      .map((part) => (part.type === "reasoning" ? part.reasoning : ""))
+      .join("");
+
     chatMessages.push({
       id: message.id,
-      role: message.role as Message["role"],
-      content: textContent,
-      reasoning,
-      toolInvocations,
+      role: message.role as UIMessage["role"],
+      content: parts
+        .map((part) => (part.type === "text" ? part.text : ""))
+        .join(""),
+      createdAt: message.createdAt,
+      reasoning: reasoning === "" ? undefined : reasoning,
+      toolInvocations: parts
+        .filter((part) => part.type === "tool-invocation")
+        .map((part) => part.toolInvocation),
+      parts,
+      annotations: annotations.length > 0 ? annotations : undefined,
     });
 
     return chatMessages;
@@ -143,71 +308,164 @@ export function convertToUIMessages(
 }
 
 type ResponseMessageWithoutId = CoreToolMessage | CoreAssistantMessage;
-type ResponseMessage = ResponseMessageWithoutId & { id: string };
-
-export type Part =
-  | { type: "text"; text: string }
-  | { type: "tool-call"; toolCallId: string }
-  | { type: "reasoning"; reasoning: string };
-
-export function sanitizeResponseMessages({
+export type ResponseMessage = ResponseMessageWithoutId & { id: string };
+
+/**
+ * Collapses the response messages of every step into the single assistant
+ * message the client rendered, keeping reasoning and tool invocations with
+ * their results. Tool calls that never returned a result are dropped.
+ */
+export function getAssistantMessageFromResponse({
+  userMessage,
   messages,
   reasoning,
 }: {
+  userMessage: UIMessage;
   messages: Array<ResponseMessage>;
   reasoning: string | undefined;
-}) {
-  const toolResultIds: string[] = [];
+}): UIMessage | undefined {
+  const lastAssistantMessage = messages.findLast(
+    (message) => message.role === "assistant"
+  );
 
-  // console.log(messages[0]);
+  if (!lastAssistantMessage) return undefined;
 
-  // Collect tool-result ids from tool messages.
-  for (const message of messages) {
-    if (message.role === "tool") {
-      for (const content of message.content) {
-        if (content.type === "tool-result") {
-          toolResultIds.push(content.toolCallId);
-        }
-      }
-    }
+  const assistantMessage = appendResponseMessages({
+    messages: [userMessage],
+    responseMessages: messages,
+  }).at(-1);
+
+  if (!assistantMessage || assistantMessage.role !== "assistant") {
+    return undefined;
   }
 
-  const messagesBySanitizedContent = messages.map((message) => {
-    // Non-assistant messages are returned as-is.
-    if (message.role !== "assistant") return message;
+  const parts: UIMessage["parts"] = (assistantMessage.parts ?? []).filter(
+    (part) =>
+      part.type !== "tool-invocation" || part.toolInvocation.state === "result"
+  );
+
+  if (reasoning && reasoning.trim().length > 0) {
+    parts.unshift({ type: "reasoning", reasoning });
+  }
+
+  if (parts.length === 0) return undefined;
+
+  return {
+    ...assistantMessage,
+    // The client keeps the id of the last step.
+    id: lastAssistantMessage.id,
+    reasoning,
+    toolInvocations: parts
+      .filter((part) => part.type === "tool-invocation")
+      .map((part) => part.toolInvocation),
+    parts,
+  };
+}
 
-    // If the content is a simple string, return the message.
-    if (typeof message.content === "string") return message;
-
-    // Assume the content is originally only text or tool-call parts.
-    const parts = message.content as Array<
-      { type: "text"; text: string } | { type: "tool-call"; toolCallId: string }
-    >;
-
-    // Filter out empty text parts and tool-calls without a matching tool-result.
-    const sanitizedContent: Part[] = parts.filter((content) =>
-      content.type === "tool-call"
-        ? toolResultIds.includes(content.toolCallId)
-        : content.type === "text"
-        ? content.text.length > 0
-        : true
+/**
+ * Reads an assistant message from a data stream response, calling `onUpdate`
+ * with the message so far and the stream data after every part. Used to pick
+ * up an answer that useChat did not start, e.g. after a refresh.
+ */
+export async function readDataStreamMessage({
+  stream,
+  onUpdate,
+}: {
+  stream: ReadableStream<Uint8Array>;
+  onUpdate: (update: { message: UIMessage; data: Array<JSONValue> }) => void;
+}): Promise<UIMessage> {
+  let message: UIMessage = {
+    id: generateUUID(),
+    createdAt: new Date(),
+    role: "assistant",
+    content: "",
+    toolInvocations: [],
+    parts: [],
+  };
+  const data: Array<JSONValue> = [];
+  // Argument text of tool calls that are still streaming, by tool call id.
+  const partialArgs = new Map<string, string>();
+  let step = 0;
+
+  const update = (changes: Partial<UIMessage>) => {
+    message = { ...message, ...changes };
+    // Rebuilt from the fields, getMessageParts returns existing parts as is.
+    message.parts = getMessageParts({ ...message, parts: undefined });
+    onUpdate({ message, data: [...data] });
+  };
+
+  const setToolInvocation = (toolInvocation: ToolInvocation) => {
+    const toolInvocations = message.toolInvocations ?? [];
+    const isKnown = toolInvocations.some(
+      ({ toolCallId }) => toolCallId === toolInvocation.toolCallId
     );
 
-    // If there's valid reasoning, add it as a new part.
-    if (reasoning && reasoning.trim().length > 0) {
-      sanitizedContent.push({ type: "reasoning", reasoning });
-    }
+    update({
+      toolInvocations: isKnown
+        ? toolInvocations.map((known) =>
+            known.toolCallId === toolInvocation.toolCallId
+              ? toolInvocation
+              : known
+          )
+        : [...toolInvocations, toolInvocation],
+    });
+  };
 
-    return {
-      ...message,
-      reasoning,
-      content: sanitizedContent,
-    };
+  const getToolInvocation = (toolCallId: string) =>
+    message.toolInvocations?.find(
+      (toolInvocation) => toolInvocation.toolCallId === toolCallId
+    );
+
+  await processDataStream({
+    stream,
+    onTextPart: (text) => update({ content: message.content + text }),
+    onReasoningPart: (reasoning) =>
+      update({ reasoning: (message.reasoning ?? "") + reasoning }),
+    onDataPart: (parts) => {
+      data.push(...parts);
+      update({});
+    },
+    onMessageAnnotationsPart: (annotations) =>
+      update({ annotations: [...(message.annotations ?? []), ...annotations] }),
+    onToolCallStreamingStartPart: ({ toolCallId, toolName }) => {
+      partialArgs.set(toolCallId, "");
+      setToolInvocation({
+        state: "partial-call",
+        step,
+        toolCallId,
+        toolName,
+        args: undefined,
+      });
+    },
+    onToolCallDeltaPart: ({ toolCallId, argsTextDelta }) => {
+      const toolInvocation = getToolInvocation(toolCallId);
+      if (!toolInvocation) return;
+
+      const argsText = (partialArgs.get(toolCallId) ?? "") + argsTextDelta;
+      partialArgs.set(toolCallId, argsText);
+      setToolInvocation({
+        ...toolInvocation,
+        state: "partial-call",
+        args: parsePartialJson(argsText).value,
+      });
+    },
+    onToolCallPart: (toolCall) =>
+      setToolInvocation({ state: "call", step, ...toolCall }),
+    onToolResultPart: ({ toolCallId, result }) => {
+      const toolInvocation = getToolInvocation(toolCallId);
+      if (!toolInvocation) return;
+
+      setToolInvocation({ ...toolInvocation, state: "result", result });
+    },
+    onFinishStepPart: () => {
+      step += 1;
+    },
+    onErrorPart: (error) => {
+      throw new Error(error);
+    },
   });
 
-  return messagesBySanitizedContent.filter(
-    (message) => Array.isArray(message.content) && message.content.length > 0
-  );
+  return message;
 }
 
 export function getMostRecentUserMessage(messages: Array<UIMessage>) {
@@ -4,6 +4,9 @@ type GeneralStore = {
   navbarIsOpen: boolean | undefined;
   setNavbarIsOpen: () => void;
   setNavbarIsOpenLocaleStore: (newValue: boolean) => void;
+  // Bumped to make every sidebar section reload its chats.
+  historyRevision: number;
+  refreshHistory: () => void;
 };
 
 export const useGeneralStore = create<GeneralStore>()((set) => ({
@@ -11,4 +14,7 @@ export const useGeneralStore = create<GeneralStore>()((set) => ({
   setNavbarIsOpen: () =>
     set((state) => ({ navbarIsOpen: !state.navbarIsOpen })),
   setNavbarIsOpenLocaleStore: (newValue) => set({ navbarIsOpen: newValue }),
+  historyRevision: 0,
+  refreshHistory: () =>
+    set((state) => ({ historyRevision: state.historyRevision + 1 })),
 }));
@@ -1,6 +1,7 @@
 import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
 
-const isPublicRoute = createRouteMatcher(["/sign-in(.*)"]);
+// The public API authenticates with its own API keys.
+const isPublicRoute = createRouteMatcher(["/sign-in(.*)", "/api/v1(.*)"]);
 
 export default clerkMiddleware(async (auth, req) => {
   let hostURL;
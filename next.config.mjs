@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // Starts tracing and the scheduled report runner from instrumentation.ts.
+    instrumentationHook: true,
+  },
+};
 
 export default nextConfig;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "isCancelled" BOOLEAN NOT NULL DEFAULT false;
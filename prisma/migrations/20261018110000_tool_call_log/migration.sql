@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "ToolCallLog" (
+    "id" CHAR(36) NOT NULL,
+    "chatId" CHAR(36) NOT NULL,
+    "messageId" CHAR(36),
+    "toolCallId" TEXT NOT NULL,
+    "toolName" TEXT NOT NULL,
+    "args" JSONB,
+    "repairedArgs" JSONB,
+    "durationMs" INTEGER,
+    "errorClass" TEXT,
+    "errorMessage" TEXT,
+    "resultLength" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ToolCallLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ToolCallLog_chatId_index" ON "ToolCallLog"("chatId");
+
+-- CreateIndex
+CREATE INDEX "ToolCallLog_messageId_index" ON "ToolCallLog"("messageId");
+
+-- CreateIndex
+CREATE INDEX "ToolCallLog_toolName_index" ON "ToolCallLog"("toolName");
+
+-- AddForeignKey
+ALTER TABLE "ToolCallLog" ADD CONSTRAINT "ToolCallLog_chatId_fkey" FOREIGN KEY ("chatId") REFERENCES "Chat"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ToolCallLog" ADD CONSTRAINT "ToolCallLog_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE SET NULL ON UPDATE CASCADE;
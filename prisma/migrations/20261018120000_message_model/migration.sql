@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "isAutoRouted" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "model" TEXT;
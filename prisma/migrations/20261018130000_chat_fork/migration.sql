@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Chat" ADD COLUMN     "parentChatId" CHAR(36);
+
+-- CreateIndex
+CREATE INDEX "Chat_parentChatId_index" ON "Chat"("parentChatId");
+
+-- AddForeignKey
+ALTER TABLE "Chat" ADD CONSTRAINT "Chat_parentChatId_fkey" FOREIGN KEY ("parentChatId") REFERENCES "Chat"("id") ON DELETE SET NULL ON UPDATE CASCADE;
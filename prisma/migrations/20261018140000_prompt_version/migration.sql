@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "PromptStatus" AS ENUM ('draft', 'published', 'archived');
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "promptVersionId" CHAR(36);
+
+-- CreateTable
+CREATE TABLE "PromptVersion" (
+    "id" CHAR(36) NOT NULL,
+    "family" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "note" TEXT,
+    "status" "PromptStatus" NOT NULL DEFAULT 'draft',
+    "createdBy" CHAR(36) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "publishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PromptVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PromptVersion_family_status_index" ON "PromptVersion"("family", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptVersion_family_version_key" ON "PromptVersion"("family", "version");
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_promptVersionId_fkey" FOREIGN KEY ("promptVersionId") REFERENCES "PromptVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
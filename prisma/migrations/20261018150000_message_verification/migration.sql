@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "hasUnverifiedClaims" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "unverifiedClaims" JSONB;
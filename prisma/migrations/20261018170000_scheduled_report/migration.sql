@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Chat" ADD COLUMN     "reportId" CHAR(36);
+
+-- CreateTable
+CREATE TABLE "ScheduledReport" (
+    "id" CHAR(36) NOT NULL,
+    "userId" CHAR(36) NOT NULL,
+    "title" TEXT NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "cron" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "email" TEXT,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "lastRunAt" TIMESTAMP(3),
+    "nextRunAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScheduledReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Chat_reportId_index" ON "Chat"("reportId");
+
+-- CreateIndex
+CREATE INDEX "ScheduledReport_userId_index" ON "ScheduledReport"("userId");
+
+-- CreateIndex
+CREATE INDEX "ScheduledReport_isEnabled_nextRunAt_index" ON "ScheduledReport"("isEnabled", "nextRunAt");
+
+-- AddForeignKey
+ALTER TABLE "Chat" ADD CONSTRAINT "Chat_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "ScheduledReport"("id") ON DELETE SET NULL ON UPDATE CASCADE;
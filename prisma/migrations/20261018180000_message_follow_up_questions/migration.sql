@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "followUpQuestions" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Vote" ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "queryCategory" TEXT,
+ADD COLUMN     "reason" TEXT,
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "Vote_isUpvoted_updatedAt_index" ON "Vote"("isUpvoted", "updatedAt");
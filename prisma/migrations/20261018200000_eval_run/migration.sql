@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "EvalRunStatus" AS ENUM ('running', 'completed', 'failed');
+
+-- CreateTable
+CREATE TABLE "EvalRun" (
+    "id" CHAR(36) NOT NULL,
+    "status" "EvalRunStatus" NOT NULL DEFAULT 'running',
+    "models" TEXT[],
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "EvalRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EvalResult" (
+    "id" CHAR(36) NOT NULL,
+    "runId" CHAR(36) NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "resolvedModel" TEXT,
+    "promptVersionId" CHAR(36),
+    "expectedTool" TEXT NOT NULL,
+    "expectedArgs" JSONB NOT NULL,
+    "expectedValue" DOUBLE PRECISION NOT NULL,
+    "toolCalls" JSONB NOT NULL,
+    "answer" TEXT,
+    "toolScore" DOUBLE PRECISION NOT NULL,
+    "argsScore" DOUBLE PRECISION NOT NULL,
+    "numericScore" DOUBLE PRECISION NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "error" TEXT,
+    "durationMs" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EvalResult_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EvalRun_startedAt_index" ON "EvalRun"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "EvalResult_runId_index" ON "EvalResult"("runId");
+
+-- CreateIndex
+CREATE INDEX "EvalResult_questionId_model_index" ON "EvalResult"("questionId", "model");
+
+-- AddForeignKey
+ALTER TABLE "EvalResult" ADD CONSTRAINT "EvalResult_runId_fkey" FOREIGN KEY ("runId") REFERENCES "EvalRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EvalResult" ADD CONSTRAINT "EvalResult_promptVersionId_fkey" FOREIGN KEY ("promptVersionId") REFERENCES "PromptVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "TraceSpan" (
+    "id" CHAR(16) NOT NULL,
+    "traceId" CHAR(32) NOT NULL,
+    "parentSpanId" CHAR(16),
+    "name" TEXT NOT NULL,
+    "chatId" CHAR(36),
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "durationMs" DOUBLE PRECISION NOT NULL,
+    "error" TEXT,
+    "attributes" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TraceSpan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TraceSpan_traceId_index" ON "TraceSpan"("traceId");
+
+-- CreateIndex
+CREATE INDEX "TraceSpan_chatId_index" ON "TraceSpan"("chatId");
+
+-- CreateIndex
+CREATE INDEX "TraceSpan_name_startTime_index" ON "TraceSpan"("name", "startTime");
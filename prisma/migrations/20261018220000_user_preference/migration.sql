@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "UserPreference" (
+    "userId" CHAR(36) NOT NULL,
+    "locale" TEXT NOT NULL DEFAULT 'en',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserPreference_pkey" PRIMARY KEY ("userId")
+);
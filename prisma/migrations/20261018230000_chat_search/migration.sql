@@ -0,0 +1,36 @@
+-- Plain text of a message for full-text search: the string content of user
+-- messages, or the text parts of assistant messages. Tool calls and results
+-- are left out, and so are the [cite:<toolCallId>] markers of answers.
+CREATE FUNCTION "message_search_text"(content JSONB) RETURNS TEXT
+    LANGUAGE SQL IMMUTABLE PARALLEL SAFE
+    AS $$
+        SELECT regexp_replace(
+            CASE jsonb_typeof(content)
+                WHEN 'string' THEN content #>> '{}'
+                WHEN 'array' THEN array_to_string(
+                    ARRAY(
+                        SELECT jsonb_array_elements_text(
+                            jsonb_path_query_array(content, '$[*] ? (@.type == "text").text')
+                        )
+                    ),
+                    ' '
+                )
+                ELSE ''
+            END,
+            '\s?\[cite:[^\]]*\]',
+            '',
+            'g'
+        )
+    $$;
+
+-- AlterTable
+ALTER TABLE "Chat" ADD COLUMN "searchVector" TSVECTOR GENERATED ALWAYS AS (to_tsvector('simple', "title")) STORED;
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "searchVector" TSVECTOR GENERATED ALWAYS AS (to_tsvector('simple', "message_search_text"("content"))) STORED;
+
+-- CreateIndex
+CREATE INDEX "Chat_searchVector_index" ON "Chat" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Message_searchVector_index" ON "Message" USING GIN ("searchVector");
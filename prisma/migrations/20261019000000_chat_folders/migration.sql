@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "ChatFolder" (
+    "id" CHAR(36) NOT NULL,
+    "userId" CHAR(36) NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChatFolder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ChatFolderItem" (
+    "chatId" CHAR(36) NOT NULL,
+    "folderId" CHAR(36) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChatFolderItem_pkey" PRIMARY KEY ("chatId")
+);
+
+-- CreateTable
+CREATE TABLE "ChatPin" (
+    "chatId" CHAR(36) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChatPin_pkey" PRIMARY KEY ("chatId")
+);
+
+-- CreateIndex
+CREATE INDEX "Chat_userId_updatedAt_index" ON "Chat"("userId", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "ChatFolder_userId_index" ON "ChatFolder"("userId");
+
+-- CreateIndex
+CREATE INDEX "ChatFolderItem_folderId_index" ON "ChatFolderItem"("folderId");
+
+-- AddForeignKey
+ALTER TABLE "ChatFolderItem" ADD CONSTRAINT "ChatFolderItem_chatId_fkey" FOREIGN KEY ("chatId") REFERENCES "Chat"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatFolderItem" ADD CONSTRAINT "ChatFolderItem_folderId_fkey" FOREIGN KEY ("folderId") REFERENCES "ChatFolder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatPin" ADD CONSTRAINT "ChatPin_chatId_fkey" FOREIGN KEY ("chatId") REFERENCES "Chat"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+// Runs the golden questions against the chat models and prints a score per
+// model. Pass model ids to limit the run, e.g. `npm run eval -- small-model`.
+
+import { runEval, summarizeEvalResults } from "@/lib/eval-runner";
+import prisma from "@/lib/prisma";
+import { EvalResult } from "@prisma/client";
+
+const formatScore = (score: number) => `${Math.round(score * 100)}%`;
+
+async function main() {
+  const models = process.argv.slice(2);
+  const results: Array<EvalResult> = [];
+
+  const run = await runEval({
+    models: models.length > 0 ? models : undefined,
+    onStart: (run) => console.log(`Eval run ${run.id} started`),
+    onResult: (result) => {
+      results.push(result);
+      console.log(
+        `${result.model} ${result.questionId}: ${formatScore(result.score)}` +
+          (result.error ? ` (${result.error})` : "")
+      );
+    },
+  });
+
+  console.log(`\nEval run ${run.id} finished\n`);
+  console.table(
+    summarizeEvalResults(results).map((summary) => ({
+      model: summary.model,
+      tool: formatScore(summary.toolScore),
+      args: formatScore(summary.argsScore),
+      numeric: formatScore(summary.numericScore),
+      score: formatScore(summary.score),
+      errors: summary.errors,
+    }))
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,89 @@
+"use server";
+
+import { generateApiKey } from "@/lib/api-keys";
+import prisma from "@/lib/prisma";
+import { auth } from "@clerk/nextjs/server";
+import { ApiKey } from "@prisma/client";
+
+export type ApiKeySummary = Omit<ApiKey, "keyHash">;
+
+const apiKeySummarySelect = {
+  id: true,
+  userId: true,
+  name: true,
+  keyPrefix: true,
+  createdAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+} as const;
+
+export async function getApiKeys(): Promise<ApiKeySummary[]> {
+  const session = await auth();
+
+  if (!session || !session.userId) {
+    throw new Error("Unauthorized");
+  }
+
+  try {
+    return await prisma.apiKey.findMany({
+      where: { userId: session.userId.trim(), revokedAt: null },
+      select: apiKeySummarySelect,
+      orderBy: { createdAt: "desc" },
+    });
+  } catch (error) {
+    console.error("Failed to get API keys from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Creates a key for the signed-in user. The plain key is only returned here.
+ */
+export async function createApiKey({
+  name,
+}: {
+  name: string;
+}): Promise<{ apiKey: ApiKeySummary; key: string }> {
+  const session = await auth();
+
+  if (!session || !session.userId) {
+    throw new Error("Unauthorized");
+  }
+
+  try {
+    const { key, keyPrefix, keyHash } = generateApiKey();
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        userId: session.userId.trim(),
+        name: name.trim() || "Untitled key",
+        keyPrefix,
+        keyHash,
+      },
+      select: apiKeySummarySelect,
+    });
+
+    return { apiKey, key };
+  } catch (error) {
+    console.error("Failed to create API key in database", error);
+    throw error;
+  }
+}
+
+export async function revokeApiKey({ id }: { id: string }): Promise<void> {
+  const session = await auth();
+
+  if (!session || !session.userId) {
+    throw new Error("Unauthorized");
+  }
+
+  try {
+    await prisma.apiKey.updateMany({
+      where: { id, userId: session.userId.trim() },
+      data: { revokedAt: new Date() },
+    });
+  } catch (error) {
+    console.error("Failed to revoke API key in database", error);
+    throw error;
+  }
+}
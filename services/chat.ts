@@ -1,17 +1,29 @@
 "use server";
 
+import { getSessionUserId } from "@/lib/auth";
 import prisma from "@/lib/prisma";
-import { Chat } from "@prisma/client";
+import {
+  ChatSearchResult,
+  HIGHLIGHT_START,
+  HIGHLIGHT_STOP,
+  toSearchQuery,
+} from "@/lib/search";
+import { auth } from "@clerk/nextjs/server";
+import { Chat, Prisma, Visibility } from "@prisma/client";
 import { cookies } from "next/headers";
 
 export async function saveChat({
   id,
   userId,
   title,
+  parentChatId,
+  reportId,
 }: {
   id: string;
   userId: string;
   title: string;
+  parentChatId?: string;
+  reportId?: string;
 }): Promise<Chat> {
   try {
     const data = await prisma.chat.create({
@@ -20,6 +32,8 @@ export async function saveChat({
         createdAt: new Date(),
         userId,
         title,
+        parentChatId,
+        reportId,
       },
     });
 
@@ -52,9 +66,41 @@ export async function updateChatTitleById({
   }
 }
 
+export async function updateChatVisibilityById({
+  id,
+  visibility,
+}: {
+  id: string;
+  visibility: Visibility;
+}): Promise<Chat> {
+  const session = await auth();
+
+  if (!session || !session.userId) {
+    throw new Error("Unauthorized");
+  }
+
+  try {
+    const chat = await prisma.chat.findUnique({ where: { id } });
+
+    // Callable as a server action, so only the owner may share a chat.
+    if (!chat || chat.userId.trim() !== session.userId.trim()) {
+      throw new Error("Unauthorized");
+    }
+
+    return await prisma.chat.update({
+      where: { id },
+      data: { visibility },
+    });
+  } catch (error) {
+    console.error("Failed to update chat visibility in database");
+    throw error;
+  }
+}
+
 export async function deleteChatById({ id }: { id: string }): Promise<Chat> {
   try {
     await prisma.vote.deleteMany({ where: { chatId: id } });
+    await prisma.toolCallLog.deleteMany({ where: { chatId: id } });
     await prisma.message.deleteMany({ where: { chatId: id } });
     return await prisma.chat.delete({ where: { id } });
   } catch (error) {
@@ -63,22 +109,158 @@ export async function deleteChatById({ id }: { id: string }): Promise<Chat> {
   }
 }
 
+export type ChatWithParent = Chat & {
+  parentChat: Pick<Chat, "id" | "title"> | null;
+};
+
+export type HistoryChat = ChatWithParent & {
+  isPinned: boolean;
+  folderId: string | null;
+};
+
+export type ChatHistorySection = "pinned" | "folder" | "reports" | "chats";
+
+export type ChatHistoryPage = {
+  chats: HistoryChat[];
+  // Id of the last chat on the page, null on the last page.
+  nextCursor: string | null;
+};
+
+function getChatHistoryFilter(
+  section: ChatHistorySection,
+  folderId?: string
+): Prisma.ChatWhereInput {
+  switch (section) {
+    case "pinned":
+      return { pin: { isNot: null } };
+    case "folder":
+      return { pin: { is: null }, folderItem: { is: { folderId } } };
+    case "reports":
+      return {
+        pin: { is: null },
+        folderItem: { is: null },
+        reportId: { not: null },
+      };
+    case "chats":
+      return { pin: { is: null }, folderItem: { is: null }, reportId: null };
+  }
+}
+
+/**
+ * Returns one page of a section of the sidebar, most recently updated first.
+ * A pinned chat is only listed under "pinned", and a chat in a folder only
+ * under its folder. Pinned chats are few and come back in a single page, in
+ * the order they were pinned.
+ */
 export async function getChatsByUserId({
-  id,
+  section = "chats",
+  folderId,
+  cursor,
+  take = 30,
 }: {
-  id: string;
-}): Promise<Chat[]> {
+  section?: ChatHistorySection;
+  folderId?: string;
+  cursor?: string;
+  take?: number;
+}): Promise<ChatHistoryPage> {
+  const id = await getSessionUserId();
+  const isPinned = section === "pinned";
+
   try {
-    return await prisma.chat.findMany({
-      where: { userId: id },
-      orderBy: { updatedAt: "desc" },
+    const chats = await prisma.chat.findMany({
+      where: { userId: id, ...getChatHistoryFilter(section, folderId) },
+      orderBy: isPinned
+        ? { pin: { createdAt: "desc" } }
+        : [{ updatedAt: "desc" }, { id: "desc" }],
+      ...(isPinned
+        ? {}
+        : {
+            take: take + 1,
+            ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+          }),
+      include: {
+        parentChat: { select: { id: true, title: true } },
+        pin: true,
+        folderItem: true,
+      },
     });
+    const hasMore = !isPinned && chats.length > take;
+    const page = hasMore ? chats.slice(0, take) : chats;
+
+    return {
+      chats: page.map(({ pin, folderItem, ...chat }) => ({
+        ...chat,
+        isPinned: pin !== null,
+        folderId: folderItem?.folderId ?? null,
+      })),
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    };
   } catch (error) {
     console.error("Failed to get chats by user from database");
     throw error;
   }
 }
 
+/**
+ * Full-text search over the titles and message text of a user's chats, best
+ * matches first. A chat whose title matches is listed once on its own, on top
+ * of its matching messages.
+ */
+export async function searchChatsByUserId({
+  query,
+  take = 20,
+}: {
+  query: string;
+  take?: number;
+}): Promise<ChatSearchResult[]> {
+  const id = await getSessionUserId();
+  const tsquery = toSearchQuery(query);
+
+  if (!tsquery) return [];
+
+  const headlineOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=20, MinWords=8`;
+
+  try {
+    return await prisma.$queryRaw<ChatSearchResult[]>(Prisma.sql`
+      WITH "query" AS (SELECT to_tsquery('simple', ${tsquery}) AS q)
+      SELECT
+        "chatId",
+        "title",
+        "messageId",
+        ts_headline('simple', "text", q, ${headlineOptions}) AS "snippet",
+        "createdAt"
+      FROM (
+        SELECT
+          c."id" AS "chatId",
+          c."title",
+          NULL AS "messageId",
+          c."title" AS "text",
+          ts_rank(c."searchVector", q) + 1 AS "rank",
+          c."updatedAt" AS "createdAt"
+        FROM "Chat" c, "query"
+        WHERE c."userId" = ${id} AND c."searchVector" @@ q
+        UNION ALL
+        SELECT
+          c."id",
+          c."title",
+          m."id",
+          message_search_text(m."content"),
+          ts_rank(m."searchVector", q),
+          m."createdAt"
+        FROM "Message" m
+        JOIN "Chat" c ON c."id" = m."chatId", "query"
+        WHERE c."userId" = ${id} AND m."searchVector" @@ q
+        ORDER BY "rank" DESC, "createdAt" DESC
+        LIMIT ${take}
+      ) "matches", "query"
+      ORDER BY "rank" DESC, "createdAt" DESC
+    `);
+  } catch (error) {
+    console.error("Failed to search chats in database", error);
+    throw error;
+  }
+}
+
 export async function getChatById({
   id,
 }: {
@@ -0,0 +1,62 @@
+"use server";
+
+import { requireAdmin } from "@/lib/auth";
+import { runEval } from "@/lib/eval-runner";
+import prisma from "@/lib/prisma";
+import { EvalResult, EvalRun } from "@prisma/client";
+
+export async function getEvalRuns({
+  take = 20,
+}: {
+  take?: number;
+} = {}): Promise<Array<EvalRun & { results: EvalResult[] }>> {
+  await requireAdmin();
+
+  try {
+    return await prisma.evalRun.findMany({
+      include: { results: true },
+      orderBy: { startedAt: "desc" },
+      take,
+    });
+  } catch (error) {
+    console.error("Failed to get eval runs from database", error);
+    throw error;
+  }
+}
+
+export async function getEvalRunById({
+  id,
+}: {
+  id: string;
+}): Promise<(EvalRun & { results: EvalResult[] }) | null> {
+  await requireAdmin();
+
+  try {
+    return await prisma.evalRun.findUnique({
+      where: { id },
+      include: { results: { orderBy: { createdAt: "asc" } } },
+    });
+  } catch (error) {
+    console.error("Failed to get eval run by id from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Starts an eval run in the background and resolves with it as soon as it is
+ * saved, since asking every model every question takes a while.
+ */
+export async function startEvalRun({
+  models,
+}: {
+  models?: Array<string>;
+} = {}): Promise<EvalRun> {
+  await requireAdmin();
+
+  return await new Promise<EvalRun>((resolve, reject) => {
+    runEval({ models, onStart: resolve }).catch((error) => {
+      console.error("Failed to run eval", error);
+      reject(error);
+    });
+  });
+}
@@ -0,0 +1,90 @@
+"use server";
+
+import { requireAdmin } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+
+const downvotedAnswerInclude = {
+  chat: { select: { id: true, title: true } },
+  message: {
+    include: {
+      toolCallLogs: { orderBy: { createdAt: "asc" } },
+    },
+  },
+} satisfies Prisma.VoteInclude;
+
+export type DownvotedAnswer = Prisma.VoteGetPayload<{
+  include: typeof downvotedAnswerInclude;
+}> & { question: string | null };
+
+/**
+ * Lists the most recently downvoted answers, each with the user question it
+ * answered and the tool calls it made.
+ */
+export async function getDownvotedAnswers({
+  queryCategory,
+  take = 50,
+}: {
+  queryCategory?: string;
+  take?: number;
+}): Promise<DownvotedAnswer[]> {
+  await requireAdmin();
+
+  try {
+    const votes = await prisma.vote.findMany({
+      where: {
+        isUpvoted: false,
+        ...(queryCategory ? { queryCategory } : {}),
+      },
+      include: downvotedAnswerInclude,
+      orderBy: { updatedAt: "desc" },
+      take,
+    });
+
+    return await Promise.all(
+      votes.map(async (vote) => {
+        const question = await prisma.message.findFirst({
+          where: {
+            chatId: vote.chatId,
+            role: "user",
+            createdAt: { lte: vote.message.createdAt },
+          },
+          orderBy: { createdAt: "desc" },
+        });
+
+        return {
+          ...vote,
+          question:
+            typeof question?.content === "string" ? question.content : null,
+        };
+      })
+    );
+  } catch (error) {
+    console.error("Failed to get downvoted answers from database", error);
+    throw error;
+  }
+}
+
+export async function getDownvoteCountsByCategory(): Promise<
+  Array<{ queryCategory: string | null; count: number }>
+> {
+  await requireAdmin();
+
+  try {
+    const groups = await prisma.vote.groupBy({
+      by: ["queryCategory"],
+      where: { isUpvoted: false },
+      _count: { _all: true },
+    });
+
+    return groups
+      .map(({ queryCategory, _count }) => ({
+        queryCategory,
+        count: _count._all,
+      }))
+      .sort((a, b) => b.count - a.count);
+  } catch (error) {
+    console.error("Failed to get downvote counts from database", error);
+    throw error;
+  }
+}
@@ -0,0 +1,160 @@
+"use server";
+
+import { getSessionUserId } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { ChatFolder } from "@prisma/client";
+
+const MAX_FOLDER_NAME_LENGTH = 80;
+
+function getFolderName(name: string): string {
+  const folderName = name.trim().slice(0, MAX_FOLDER_NAME_LENGTH);
+
+  if (folderName === "") {
+    throw new Error("Folder name is required");
+  }
+
+  return folderName;
+}
+
+async function assertChatOwner(chatId: string, userId: string) {
+  const chat = await prisma.chat.findFirst({
+    where: { id: chatId, userId },
+    select: { id: true },
+  });
+
+  if (!chat) {
+    throw new Error("Chat not found");
+  }
+}
+
+export async function getChatFolders(): Promise<ChatFolder[]> {
+  const userId = await getSessionUserId();
+
+  try {
+    return await prisma.chatFolder.findMany({
+      where: { userId },
+      orderBy: { name: "asc" },
+    });
+  } catch (error) {
+    console.error("Failed to get chat folders from database", error);
+    throw error;
+  }
+}
+
+export async function createChatFolder({
+  name,
+}: {
+  name: string;
+}): Promise<ChatFolder> {
+  const userId = await getSessionUserId();
+
+  try {
+    return await prisma.chatFolder.create({
+      data: { userId, name: getFolderName(name) },
+    });
+  } catch (error) {
+    console.error("Failed to save chat folder in database", error);
+    throw error;
+  }
+}
+
+export async function renameChatFolder({
+  id,
+  name,
+}: {
+  id: string;
+  name: string;
+}): Promise<void> {
+  const userId = await getSessionUserId();
+
+  try {
+    await prisma.chatFolder.updateMany({
+      where: { id, userId },
+      data: { name: getFolderName(name) },
+    });
+  } catch (error) {
+    console.error("Failed to rename chat folder in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Deletes a folder. Its chats are kept and go back to the chat history.
+ */
+export async function deleteChatFolder({ id }: { id: string }): Promise<void> {
+  const userId = await getSessionUserId();
+
+  try {
+    await prisma.chatFolder.deleteMany({ where: { id, userId } });
+  } catch (error) {
+    console.error("Failed to delete chat folder from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Moves a chat into a folder, or out of its folder when folderId is null.
+ */
+export async function moveChatToFolder({
+  chatId,
+  folderId,
+}: {
+  chatId: string;
+  folderId: string | null;
+}): Promise<void> {
+  const userId = await getSessionUserId();
+
+  try {
+    await assertChatOwner(chatId, userId);
+
+    if (folderId === null) {
+      await prisma.chatFolderItem.deleteMany({ where: { chatId } });
+      return;
+    }
+
+    const folder = await prisma.chatFolder.findFirst({
+      where: { id: folderId, userId },
+      select: { id: true },
+    });
+
+    if (!folder) {
+      throw new Error("Folder not found");
+    }
+
+    await prisma.chatFolderItem.upsert({
+      where: { chatId },
+      create: { chatId, folderId },
+      update: { folderId, createdAt: new Date() },
+    });
+  } catch (error) {
+    console.error("Failed to move chat to folder in database", error);
+    throw error;
+  }
+}
+
+export async function setChatPinned({
+  chatId,
+  isPinned,
+}: {
+  chatId: string;
+  isPinned: boolean;
+}): Promise<void> {
+  const userId = await getSessionUserId();
+
+  try {
+    await assertChatOwner(chatId, userId);
+
+    if (isPinned) {
+      await prisma.chatPin.upsert({
+        where: { chatId },
+        create: { chatId },
+        update: {},
+      });
+    } else {
+      await prisma.chatPin.deleteMany({ where: { chatId } });
+    }
+  } catch (error) {
+    console.error("Failed to update chat pin in database", error);
+    throw error;
+  }
+}
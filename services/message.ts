@@ -1,8 +1,14 @@
 "use server";
-import { myProvider } from "@/lib/models";
+import { autoChatModelRoutes, myProvider, QueryCategory } from "@/lib/models";
 import prisma from "@/lib/prisma";
-import { Message, Prisma, Vote } from "@prisma/client";
-import { Message as AIMessage, embed, generateText } from "ai";
+import { stripCitations } from "@/lib/citations";
+import { DEFAULT_LOCALE, Locale, locales } from "@/lib/locales";
+import { generateUUID, ResponseMessage } from "@/lib/utils";
+import { auth } from "@clerk/nextjs/server";
+import { Chat, Message, Prisma, Vote } from "@prisma/client";
+import { Message as AIMessage, embed, generateObject, generateText } from "ai";
+import { z } from "zod";
+import { getChatById, saveChat } from "./chat";
 
 export async function saveMessages({
   messages,
@@ -30,6 +36,10 @@ export async function saveMessages({
           msg.parts === null
             ? Prisma.JsonNull
             : (msg.parts as Prisma.InputJsonValue),
+        unverifiedClaims:
+          msg.unverifiedClaims === null
+            ? Prisma.JsonNull
+            : (msg.unverifiedClaims as Prisma.InputJsonValue),
       })),
     });
   } catch (error) {
@@ -58,27 +68,27 @@ export async function voteMessage({
   chatId,
   messageId,
   type,
+  reason,
+  queryCategory,
 }: {
   chatId: string;
   messageId: string;
   type: "up" | "down";
-}): Promise<Vote | { count: number }> {
+  reason?: string;
+  queryCategory?: QueryCategory | null;
+}): Promise<Vote> {
+  // Only downvotes keep a reason, switching to an upvote clears it.
+  const data = {
+    isUpvoted: type === "up",
+    reason: type === "down" ? reason?.trim() || null : null,
+    ...(queryCategory !== undefined ? { queryCategory } : {}),
+  };
+
   try {
-    const existingVote = await prisma.vote.findFirst({
-      where: { messageId },
-    });
-    if (existingVote) {
-      return await prisma.vote.updateMany({
-        where: { messageId, chatId },
-        data: { isUpvoted: type === "up" },
-      });
-    }
-    return await prisma.vote.create({
-      data: {
-        chatId,
-        messageId,
-        isUpvoted: type === "up",
-      },
+    return await prisma.vote.upsert({
+      where: { chatId_messageId: { chatId, messageId } },
+      update: data,
+      create: { chatId, messageId, ...data },
     });
   } catch (error) {
     console.error("Failed to upvote message in database", error);
@@ -154,6 +164,83 @@ export async function deleteMessagesByChatIdAfterTimestamp({
   }
 }
 
+export async function deleteTrailingMessages({ id }: { id: string }) {
+  const session = await auth();
+
+  if (!session || !session.userId) {
+    throw new Error("Unauthorized");
+  }
+
+  const [message] = await getMessageById({ id });
+
+  if (!message) return;
+
+  const chat = await getChatById({ id: message.chatId });
+
+  if (chat?.userId.trim() !== session.userId.trim()) {
+    throw new Error("Unauthorized");
+  }
+
+  // Removes the edited message itself as well, it is saved again on reload.
+  await deleteMessagesByChatIdAfterTimestamp({
+    chatId: message.chatId,
+    timestamp: message.createdAt,
+  });
+}
+
+/**
+ * Starts a new chat for the current user holding copies of every message up
+ * to and including the given one, linked back to the chat it came from.
+ */
+export async function forkChatFromMessage({
+  id,
+}: {
+  id: string;
+}): Promise<Chat> {
+  const session = await auth();
+
+  if (!session || !session.userId) {
+    throw new Error("Unauthorized");
+  }
+
+  const [message] = await getMessageById({ id });
+
+  if (!message) {
+    throw new Error("Message not found");
+  }
+
+  const chat = await getChatById({ id: message.chatId });
+
+  if (
+    !chat ||
+    (chat.visibility === "PRIVATE" &&
+      chat.userId.trim() !== session.userId.trim())
+  ) {
+    throw new Error("Unauthorized");
+  }
+
+  const messages = await getMessagesByChatId({ id: chat.id });
+  const forkedChat = await saveChat({
+    id: generateUUID(),
+    userId: session.userId.trim(),
+    title: `${chat.title} (branch)`,
+    parentChatId: chat.id,
+  });
+
+  await saveMessages({
+    messages: messages
+      .filter((m) => m.createdAt <= message.createdAt)
+      .map((m) => ({
+        ...m,
+        id: generateUUID(),
+        chatId: forkedChat.id,
+        updatedAt: new Date(),
+      })),
+  });
+
+  return forkedChat;
+}
+
 export async function generateTitleFromUserMessage({
   message,
 }: {
@@ -167,34 +254,128 @@ export async function generateTitleFromUserMessage({
       - the title should be a summary of the user's message
       - do not use quotes or colons`,
     prompt: JSON.stringify(message),
+    experimental_telemetry: { isEnabled: true, functionId: "generate-title" },
   });
 
   return title;
 }
 
-export async function generateEmbeddings(text: string): Promise<number[]> {
+export async function generateEmbeddings(
+  text: string,
+  abortSignal?: AbortSignal
+): Promise<number[]> {
   const { embedding } = await embed({
     model: myProvider.textEmbeddingModel("embedding-model"),
     value: text,
+    abortSignal,
+    experimental_telemetry: { isEnabled: true, functionId: "embed-query" },
   });
 
   return embedding; // Returns an array of numbers
 }
 
-export async function classifyUserQuery(userQuery: string): Promise<string> {
+export async function classifyUserQuery(
+  userQuery: string
+): Promise<QueryCategory> {
   const { text } = await generateText({
     model: myProvider.languageModel("small-model"),
     system: `
       Your job is to classify user queries into one of the following categories:
-      - "TOTAL_SALES" → If the user is asking for the total sum of sales (e.g., "What is the total sum of sales?", "How much was sold in June?", "Total sales")
-      - "INVOICE_SEARCH" → If the user is asking about specific invoices (e.g., "Show Apple invoices", "Find all purchases made by John Doe")
+      - "INVOICE_SEARCH" → If the user is asking about specific invoices (e.g., "Show Apple invoices", "Find all purchases made by John Doe", "Details of invoice J0125013")
+      - "TOTAL_SALES" → If the user is asking for a single total, average or count of sales (e.g., "What is the total sum of sales?", "How much was sold in June?", "Total sales")
+      - "ANALYTICS" → If the user is asking for rankings, trends, comparisons or breakdowns that need several steps (e.g., "Top 10 items by region last quarter", "Monthly sales trend compared to last year")
       - "OTHER" → If the query does not fit the above categories.
 
-      Respond with ONLY one of the categories: "TOTAL_SALES", "INVOICE_SEARCH", or "OTHER".
+      Respond with ONLY one of the categories: "INVOICE_SEARCH", "TOTAL_SALES", "ANALYTICS", or "OTHER".
       DO NOT respond in any other way.
     `,
     prompt: userQuery,
+    experimental_telemetry: { isEnabled: true, functionId: "classify-query" },
+  });
+
+  const category = text.trim().replace(/["'`]/g, "").toUpperCase();
+
+  return category in autoChatModelRoutes
+    ? (category as QueryCategory)
+    : "OTHER";
+}
+
+const MAX_FOLLOW_UP_CONTEXT_LENGTH = 2000;
+
+/**
+ * Suggests three questions the user could ask next, based on the tools the
+ * answer used and what they returned.
+ */
+export async function generateFollowUpQuestions({
+  userQuery,
+  messages,
+  locale = DEFAULT_LOCALE,
+  abortSignal,
+}: {
+  userQuery: string;
+  messages: Array<ResponseMessage>;
+  locale?: Locale;
+  abortSignal?: AbortSignal;
+}): Promise<string[]> {
+  const toolCalls = messages.flatMap((message) =>
+    message.role === "assistant" && typeof message.content !== "string"
+      ? message.content.flatMap((part) =>
+          part.type === "tool-call"
+            ? [`${part.toolName}(${JSON.stringify(part.args)})`]
+            : []
+        )
+      : []
+  );
+  const toolResults = messages
+    .flatMap((message) =>
+      message.role === "tool"
+        ? message.content.map((part) => JSON.stringify(part.result))
+        : []
+    )
+    .join("\n")
+    .slice(0, MAX_FOLLOW_UP_CONTEXT_LENGTH);
+  const answer = messages
+    .flatMap((message) =>
+      message.role === "assistant"
+        ? typeof message.content === "string"
+          ? [message.content]
+          : message.content.flatMap((part) =>
+              part.type === "text" ? [part.text] : []
+            )
+        : []
+    )
+    .map(stripCitations)
+    .join("\n")
+    .slice(0, MAX_FOLLOW_UP_CONTEXT_LENGTH);
+
+  const { object } = await generateObject({
+    model: myProvider.languageModel("llama3.2-object"),
+    schema: z.object({
+      questions: z.array(z.string()).describe("Three follow-up questions"),
+    }),
+    system: `\n
+      - you suggest 3 short follow-up questions a sales manager could ask next
+      - ground them in the tools used and the data returned, e.g. after the top items, drill into one item by region or over time
+      - mention real items, customers, regions or periods from the result
+      - write them as the user would ask, each under 80 characters, in ${
+        locales.find(({ id }) => id === locale)?.englishName ?? "English"
+      }
+      - do not repeat the original question`,
+    prompt: [
+      `Question: ${userQuery}`,
+      `Tools used: ${toolCalls.join(", ") || "none"}`,
+      `Tool results: ${toolResults || "none"}`,
+      `Answer: ${answer}`,
+    ].join("\n\n"),
+    abortSignal,
+    experimental_telemetry: {
+      isEnabled: true,
+      functionId: "follow-up-questions",
+    },
   });
 
-  return text.trim(); // Expected output: "TOTAL_SALES", "INVOICE_SEARCH", or "OTHER"
+  return object.questions
+    .map((question) => question.trim())
+    .filter((question) => question !== "")
+    .slice(0, 3);
 }
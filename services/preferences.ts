@@ -0,0 +1,55 @@
+"use server";
+
+import { DEFAULT_LOCALE, isLocale, Locale } from "@/lib/locales";
+import prisma from "@/lib/prisma";
+import { auth } from "@clerk/nextjs/server";
+
+/**
+ * Returns the signed-in user's language, or the default when they have not
+ * picked one or are signed out.
+ */
+export async function getUserLocale(): Promise<Locale> {
+  const session = await auth();
+
+  if (!session || !session.userId) {
+    return DEFAULT_LOCALE;
+  }
+
+  try {
+    const preference = await prisma.userPreference.findUnique({
+      where: { userId: session.userId.trim() },
+    });
+
+    return isLocale(preference?.locale) ? preference.locale : DEFAULT_LOCALE;
+  } catch (error) {
+    console.error("Failed to get user preference from database", error);
+    throw error;
+  }
+}
+
+export async function saveUserLocale({
+  locale,
+}: {
+  locale: Locale;
+}): Promise<void> {
+  const session = await auth();
+
+  if (!session || !session.userId) {
+    throw new Error("Unauthorized");
+  }
+
+  if (!isLocale(locale)) {
+    throw new Error(`Unknown locale: ${locale}`);
+  }
+
+  try {
+    await prisma.userPreference.upsert({
+      where: { userId: session.userId.trim() },
+      create: { userId: session.userId.trim(), locale },
+      update: { locale },
+    });
+  } catch (error) {
+    console.error("Failed to save user preference in database", error);
+    throw error;
+  }
+}
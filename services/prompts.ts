@@ -0,0 +1,115 @@
+"use server";
+
+import { requireAdmin } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { PromptVersion } from "@prisma/client";
+
+export async function getActivePrompt({
+  family,
+}: {
+  family: string;
+}): Promise<PromptVersion | null> {
+  try {
+    return await prisma.promptVersion.findFirst({
+      where: { family, status: "PUBLISHED" },
+      orderBy: { publishedAt: "desc" },
+    });
+  } catch (error) {
+    console.error("Failed to get active prompt from database", error);
+    throw error;
+  }
+}
+
+export async function getPromptVersions({
+  family,
+}: {
+  family: string;
+}): Promise<PromptVersion[]> {
+  await requireAdmin();
+
+  try {
+    return await prisma.promptVersion.findMany({
+      where: { family },
+      orderBy: { version: "desc" },
+    });
+  } catch (error) {
+    console.error("Failed to get prompt versions from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Saves the editor content as a draft. Reuses the family's latest version
+ * while it is still a draft, otherwise starts a new version.
+ */
+export async function savePromptDraft({
+  family,
+  content,
+  note,
+}: {
+  family: string;
+  content: string;
+  note?: string;
+}): Promise<PromptVersion> {
+  const userId = await requireAdmin();
+
+  try {
+    const latest = await prisma.promptVersion.findFirst({
+      where: { family },
+      orderBy: { version: "desc" },
+    });
+
+    if (latest?.status === "DRAFT") {
+      return await prisma.promptVersion.update({
+        where: { id: latest.id },
+        data: { content, note, createdBy: userId },
+      });
+    }
+
+    return await prisma.promptVersion.create({
+      data: {
+        family,
+        version: (latest?.version ?? 0) + 1,
+        content,
+        note,
+        createdBy: userId,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to save prompt draft in database", error);
+    throw error;
+  }
+}
+
+/**
+ * Makes the version the active prompt of its family, archiving the one it
+ * replaces. Archived versions can be published again to roll back.
+ */
+export async function publishPromptVersion({
+  id,
+}: {
+  id: string;
+}): Promise<PromptVersion> {
+  await requireAdmin();
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const promptVersion = await tx.promptVersion.findUniqueOrThrow({
+        where: { id },
+      });
+
+      await tx.promptVersion.updateMany({
+        where: { family: promptVersion.family, status: "PUBLISHED" },
+        data: { status: "ARCHIVED" },
+      });
+
+      return await tx.promptVersion.update({
+        where: { id },
+        data: { status: "PUBLISHED", publishedAt: new Date() },
+      });
+    });
+  } catch (error) {
+    console.error("Failed to publish prompt version in database", error);
+    throw error;
+  }
+}
@@ -0,0 +1,133 @@
+"use server";
+
+import { getSessionUserId } from "@/lib/auth";
+import { getNextCronRun } from "@/lib/cron";
+import { chatModels } from "@/lib/models";
+import prisma from "@/lib/prisma";
+import { runScheduledReport } from "@/lib/report-runner";
+import { ScheduledReport } from "@prisma/client";
+
+export async function getScheduledReports(): Promise<ScheduledReport[]> {
+  const userId = await getSessionUserId();
+
+  try {
+    return await prisma.scheduledReport.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+    });
+  } catch (error) {
+    console.error("Failed to get scheduled reports from database", error);
+    throw error;
+  }
+}
+
+export async function createScheduledReport({
+  title,
+  prompt,
+  cron,
+  model,
+  email,
+}: {
+  title: string;
+  prompt: string;
+  cron: string;
+  model: string;
+  email?: string;
+}): Promise<ScheduledReport> {
+  const userId = await getSessionUserId();
+
+  if (!chatModels.some((chatModel) => chatModel.id === model)) {
+    throw new Error(`Unknown model: ${model}`);
+  }
+
+  // Throws for an invalid expression before anything is saved.
+  const nextRunAt = getNextCronRun(cron);
+
+  try {
+    return await prisma.scheduledReport.create({
+      data: {
+        userId,
+        title: title.trim() || prompt.trim().slice(0, 80),
+        prompt: prompt.trim(),
+        cron: cron.trim(),
+        model,
+        email: email?.trim() || null,
+        nextRunAt,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to save scheduled report in database", error);
+    throw error;
+  }
+}
+
+export async function setScheduledReportEnabled({
+  id,
+  isEnabled,
+}: {
+  id: string;
+  isEnabled: boolean;
+}): Promise<void> {
+  const userId = await getSessionUserId();
+
+  try {
+    const report = await prisma.scheduledReport.findFirst({
+      where: { id, userId },
+    });
+    if (!report) throw new Error("Scheduled report not found");
+
+    await prisma.scheduledReport.update({
+      where: { id },
+      data: {
+        isEnabled,
+        // Skip the runs missed while the report was paused.
+        nextRunAt: isEnabled ? getNextCronRun(report.cron) : report.nextRunAt,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to update scheduled report in database", error);
+    throw error;
+  }
+}
+
+export async function deleteScheduledReport({
+  id,
+}: {
+  id: string;
+}): Promise<void> {
+  const userId = await getSessionUserId();
+
+  try {
+    await prisma.scheduledReport.deleteMany({ where: { id, userId } });
+  } catch (error) {
+    console.error("Failed to delete scheduled report from database", error);
+    throw error;
+  }
+}
+
+/**
+ * Runs a report straight away without moving its schedule. Resolves with the
+ * id of the chat holding the answer.
+ */
+export async function runScheduledReportNow({
+  id,
+}: {
+  id: string;
+}): Promise<string> {
+  const userId = await getSessionUserId();
+
+  const report = await prisma.scheduledReport.findFirst({
+    where: { id, userId },
+  });
+
+  if (!report) {
+    throw new Error("Scheduled report not found");
+  }
+
+  try {
+    return await runScheduledReport(report);
+  } catch (error) {
+    console.error("Failed to run scheduled report", error);
+    throw error;
+  }
+}
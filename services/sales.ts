@@ -1,4 +1,4 @@
-import prisma from "@/lib/prisma";
+import prisma, { withQueryAbort } from "@/lib/prisma";
 import { generateEmbeddings } from "./message";
 
 function cosineSimilarityOptimized(
@@ -60,6 +60,22 @@ function cosineSimilarityOptimized(
 //   return scoredSales.map((sale) => sale.text).join("\n");
 // }
 
+export type SalesDateRange = {
+  from: Date;
+  to: Date;
+};
+
+export async function getSalesDateRange(): Promise<SalesDateRange | null> {
+  const result = await prisma.sales.aggregate({
+    _min: { purchaseDate: true },
+    _max: { purchaseDate: true },
+  });
+
+  if (!result._min.purchaseDate || !result._max.purchaseDate) return null;
+
+  return { from: result._min.purchaseDate, to: result._max.purchaseDate };
+}
+
 export type ScoredSale = {
   id: string;
   score: number;
@@ -67,14 +83,20 @@ export type ScoredSale = {
 
 export async function retrieveRelevantSalesRecords(
   userQuery: string,
-  threshold: number = 0.7
+  threshold: number = 0.7,
+  abortSignal?: AbortSignal
 ): Promise<ScoredSale[]> {
-  const queryEmbedding = await generateEmbeddings(userQuery.toUpperCase());
+  const queryEmbedding = await generateEmbeddings(
+    userQuery.toUpperCase(),
+    abortSignal
+  );
 
   const queryEmbeddingString = `[${queryEmbedding.join(",")}]`;
   const maxDistance = threshold;
 
-  const scoredSales = await prisma.$queryRaw<ScoredSale[]>`
+  const scoredSales = await withQueryAbort(
+    abortSignal,
+    (tx) => tx.$queryRaw<ScoredSale[]>`
       SELECT 
       v.id,
       (v.embedding <=> (${queryEmbeddingString}::vector(4096))) AS score
@@ -82,7 +104,8 @@ export async function retrieveRelevantSalesRecords(
     WHERE v.embedding IS NOT NULL
     AND (v.embedding <=> (${queryEmbeddingString}::vector(4096))) <= ${maxDistance}
     ORDER BY v.embedding <=> (${queryEmbeddingString}::vector(4096));
-    `;
+    `
+  );
 
   return scoredSales;
 }
@@ -0,0 +1,48 @@
+"use server";
+
+import { requireAdmin } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { ToolCallLog } from "@prisma/client";
+
+export async function getToolCallLogs({
+  chatId,
+  toolName,
+  take = 100,
+}: {
+  chatId?: string;
+  toolName?: string;
+  take?: number;
+}): Promise<ToolCallLog[]> {
+  await requireAdmin();
+
+  try {
+    return await prisma.toolCallLog.findMany({
+      where: {
+        ...(chatId ? { chatId } : {}),
+        ...(toolName ? { toolName } : {}),
+      },
+      orderBy: { createdAt: "desc" },
+      take,
+    });
+  } catch (error) {
+    console.error("Failed to get tool call logs from database", error);
+    throw error;
+  }
+}
+
+export async function getLoggedToolNames(): Promise<string[]> {
+  await requireAdmin();
+
+  try {
+    const toolNames = await prisma.toolCallLog.findMany({
+      distinct: ["toolName"],
+      select: { toolName: true },
+      orderBy: { toolName: "asc" },
+    });
+
+    return toolNames.map(({ toolName }) => toolName);
+  } catch (error) {
+    console.error("Failed to get logged tool names from database", error);
+    throw error;
+  }
+}
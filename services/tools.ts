@@ -1,27 +1,91 @@
-import prisma from "@/lib/prisma";
+import { DateRange, parseDateRange } from "@/lib/date-range";
+import prisma, { withQueryAbort } from "@/lib/prisma";
+import { getToolTranslator } from "@/lib/tool-locale";
+import { getProgressReporter } from "@/lib/tool-progress";
 import { chunkArray } from "@/lib/utils";
 import { Prisma, Sales } from "@prisma/client";
 import { tool } from "ai";
 import { z } from "zod";
-import { retrieveRelevantSalesRecords, ScoredSale } from "./sales";
+import {
+  getSalesDateRange,
+  retrieveRelevantSalesRecords,
+  ScoredSale,
+} from "./sales";
 
 const nullToUndefined = (arg: unknown) =>
   arg === "null" || arg === "None" ? null : arg;
 const noneToUndefined = (val: unknown): unknown =>
   val === "None" ? null : val;
 
+// Only strict ISO dates pass through, new Date() would also read phrases like
+// "March 2024" as the first moment of the period.
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T.*)?$/;
+
+const isValidDate = (value?: string | null) =>
+  !value ||
+  (ISO_DATE_PATTERN.test(value) && !Number.isNaN(new Date(value).getTime()));
+
+// Lets the model pass phrases like "last month" where an ISO date is expected.
+const resolveDateArg = (edge: keyof DateRange) => (arg: unknown) => {
+  const val = nullToUndefined(arg);
+  if (typeof val !== "string" || isValidDate(val)) return val;
+  return parseDateRange(val)?.[edge] ?? val;
+};
+
+const dateArgSchema = (edge: keyof DateRange) =>
+  z.preprocess(
+    resolveDateArg(edge),
+    z.string().optional().nullable().refine(isValidDate, {
+      message: "Use an ISO date or a phrase such as 'last month'",
+    })
+  );
+
+const dateRangeSchema = z
+  .preprocess(
+    nullToUndefined,
+    z
+      .string()
+      .optional()
+      .nullable()
+      .refine((value) => !value || parseDateRange(value) !== null, {
+        message:
+          "Unrecognised date range, use phrases such as 'last month', 'Q1 2024' or 'since Raya'",
+      })
+  )
+  .describe(
+    "Optional natural-language period (e.g., 'last month', 'Q1 this year', 'since Raya', 'Jan 2024 to Mar 2024'). Overrides startDate and endDate."
+  );
+
+/**
+ * Resolves the period a tool should filter on, preferring the natural-language
+ * dateRange over explicit startDate/endDate.
+ */
+export const resolveDateFilters = ({
+  startDate,
+  endDate,
+  dateRange,
+}: {
+  startDate?: string | null;
+  endDate?: string | null;
+  dateRange?: string | null;
+}) => {
+  const parsedRange = dateRange ? parseDateRange(dateRange) : null;
+  return parsedRange ?? { startDate, endDate };
+};
+
 const salesAnalyticsSchema = z.object({
   operation: z
     .enum(["FILTER", "SUMMARY", "ANALYTICS", "TREND"])
     .describe(
       "Sales analytics, ONLY these options: FILTER, SUMMARY, ANALYTICS, TREND"
     ),
-  startDate: z
-    .preprocess(nullToUndefined, z.string().optional().nullable())
-    .describe("Start date in ISO format (e.g., 2025-01-01)"),
-  endDate: z
-    .preprocess(nullToUndefined, z.string().optional().nullable())
-    .describe("End date in ISO format (e.g., 2025-01-31)"),
+  startDate: dateArgSchema("startDate").describe(
+    "Start date in ISO format (e.g., 2025-01-01)"
+  ),
+  endDate: dateArgSchema("endDate").describe(
+    "End date in ISO format (e.g., 2025-01-31)"
+  ),
+  dateRange: dateRangeSchema,
   paymentMethod: z
     .preprocess(nullToUndefined, z.string().optional().nullable())
     .describe("Payment method to filter by"),
@@ -85,7 +149,11 @@ export const getSalesAnalytics = tool({
   description:
     "Perform sales analytics: FILTER for detailed records, SUMMARY for grouped records, ANALYTICS for sales stats, and TREND for time-based trends.",
   parameters: salesAnalyticsSchema,
-  execute: async (params: SalesAnalyticsParams) => {
+  execute: async (params: SalesAnalyticsParams, options) => {
+    const { abortSignal } = options;
+    const reportProgress = getProgressReporter(options);
+    const t = getToolTranslator(options);
+
     if (params.operation === "ANALYTICS" && !params.analyticsType) {
       throw new Error("analyticsType is required for ANALYTICS operation.");
     }
@@ -102,7 +170,8 @@ export const getSalesAnalytics = tool({
     };
 
     const filter: Record<string, any> = {};
-    const dateFilter = buildDateFilter(params.startDate, params.endDate);
+    const { startDate, endDate } = resolveDateFilters(params);
+    const dateFilter = buildDateFilter(startDate, endDate);
     if (dateFilter) filter.purchaseDate = dateFilter;
 
     if (params.operation === "FILTER") {
@@ -115,21 +184,22 @@ export const getSalesAnalytics = tool({
         where: filter,
         orderBy: { purchaseDate: "desc" },
       });
-      if (salesData.length === 0)
-        return "No sales records found for the given filters.";
+      reportProgress(
+        t("progress.salesRecordsFound", { count: salesData.length })
+      );
+      if (salesData.length === 0) return t("tools.noSalesRecords");
 
       return salesData
-        .map(
-          (sale) =>
-            `Invoice: ${sale.invoice}, Customer: ${
-              sale.customer
-            }, PurchaseDate: ${sale.purchaseDate.toISOString()}, Total: RM ${sale.total.toLocaleString(
-              "en-US",
-              {
-                minimumFractionDigits: 2,
-                maximumFractionDigits: 2,
-              }
-            )}`
+        .map((sale) =>
+          t("tools.saleRecord", {
+            invoice: sale.invoice,
+            customer: sale.customer,
+            purchaseDate: sale.purchaseDate.toISOString(),
+            total: sale.total.toLocaleString("en-US", {
+              minimumFractionDigits: 2,
+              maximumFractionDigits: 2,
+            }),
+          })
         )
         .join("\n");
     } else if (params.operation === "SUMMARY") {
@@ -139,18 +209,20 @@ export const getSalesAnalytics = tool({
         _sum: { total: true },
         _count: { _all: true },
       });
-      if (summaryData.length === 0)
-        return "No sales records found for the given filters.";
+      if (summaryData.length === 0) return t("tools.noSalesRecords");
 
       return summaryData
-        .map(
-          (data) =>
-            `Payment Method: ${data.paymentMethod}, Count: ${
-              data._count._all
-            }, Total: RM ${data._sum.total?.toLocaleString("en-US", {
-              minimumFractionDigits: 2,
-              maximumFractionDigits: 2,
-            })}`
+        .map((data) =>
+          t("tools.paymentMethodSummary", {
+            paymentMethod: data.paymentMethod,
+            count: data._count._all,
+            total: String(
+              data._sum.total?.toLocaleString("en-US", {
+                minimumFractionDigits: 2,
+                maximumFractionDigits: 2,
+              })
+            ),
+          })
         )
         .join("\n");
     } else if (params.operation === "ANALYTICS") {
@@ -159,7 +231,9 @@ export const getSalesAnalytics = tool({
           where: { ...filter, paymentMethod: params.paymentMethod },
         });
         if (methodCount === 0) {
-          return `Payment method '${params.paymentMethod}' is not available.`;
+          return t("tools.paymentMethodUnavailable", {
+            paymentMethod: params.paymentMethod,
+          });
         }
         filter.paymentMethod = params.paymentMethod;
       }
@@ -170,36 +244,40 @@ export const getSalesAnalytics = tool({
           where: filter,
         });
         const total = aggregateResult._sum.total || 0;
-        return `Total sales: RM ${total.toLocaleString("en-US", {
-          minimumFractionDigits: 2,
-          maximumFractionDigits: 2,
-        })}`;
+        return t("tools.totalSales", {
+          total: total.toLocaleString("en-US", {
+            minimumFractionDigits: 2,
+            maximumFractionDigits: 2,
+          }),
+        });
       } else if (params.analyticsType === "AVERAGE_SALES") {
         const aggregateResult = await prisma.sales.aggregate({
           _avg: { total: true },
           where: filter,
         });
         const average = aggregateResult._avg.total || 0;
-        return `Average sale: RM ${average.toLocaleString("en-US", {
-          minimumFractionDigits: 2,
-          maximumFractionDigits: 2,
-        })}`;
+        return t("tools.averageSale", {
+          average: average.toLocaleString("en-US", {
+            minimumFractionDigits: 2,
+            maximumFractionDigits: 2,
+          }),
+        });
       } else if (params.analyticsType === "SALES_COUNT") {
         const count = await prisma.sales.count({ where: filter });
-        return `Number of sales: ${count}`;
+        return t("tools.salesCount", { count });
       }
-      return "Invalid analytics type provided.";
+      return t("tools.invalidAnalyticsType");
     } else if (params.operation === "TREND") {
       // Use the provided groupBy interval; default to DAY if not provided
       const interval = params.groupBy ? params.groupBy.toLowerCase() : "day";
       const conditions: string[] = [];
       const queryParams: any[] = [];
-      if (params.startDate) {
-        queryParams.push(new Date(params.startDate));
+      if (startDate) {
+        queryParams.push(new Date(startDate));
         conditions.push(`"purchaseDate" >= $${queryParams.length}`);
       }
-      if (params.endDate) {
-        queryParams.push(new Date(params.endDate));
+      if (endDate) {
+        queryParams.push(new Date(endDate));
         conditions.push(`"purchaseDate" <= $${queryParams.length}`);
       }
       const whereClause = conditions.length
@@ -224,10 +302,11 @@ export const getSalesAnalytics = tool({
         ${limitClause};
       `;
       type Trend = { period: Date; total: number; count: number };
-      const trends: Trend[] = await prisma.$queryRawUnsafe(
-        query,
-        ...queryParams
+      reportProgress(t("progress.groupingBy", { groupBy: interval }));
+      const trends: Trend[] = await withQueryAbort(abortSignal, (tx) =>
+        tx.$queryRawUnsafe(query, ...queryParams)
       );
+      reportProgress(t("progress.trendPeriods", { count: trends.length }));
 
       return trends
         .map((trend) => {
@@ -252,14 +331,18 @@ export const getSalesAnalytics = tool({
           } else {
             periodStr = trendDate.toISOString();
           }
-          return `Period: ${periodStr}, Total Sales: RM ${trend.total.toLocaleString(
-            "en-US",
-            { minimumFractionDigits: 2, maximumFractionDigits: 2 }
-          )}, Sales Count: ${trend.count}`;
+          return t("tools.trendPeriod", {
+            period: periodStr,
+            total: trend.total.toLocaleString("en-US", {
+              minimumFractionDigits: 2,
+              maximumFractionDigits: 2,
+            }),
+            count: String(trend.count),
+          });
         })
         .join("\n");
     }
-    return "Invalid operation.";
+    return t("tools.invalidOperation");
   },
 });
 
@@ -871,31 +954,34 @@ export const getInvoiceDetails = tool({
       .string()
       .describe("The invoice number to retrieve details for (e.g., J0125013)"),
   }),
-  execute: async ({ invoice }) => {
+  execute: async ({ invoice }, options) => {
+    const t = getToolTranslator(options);
     const invoiceData = await prisma.sales.findMany({
       where: { invoice },
     });
 
     if (invoiceData.length === 0) {
-      return `No records found for invoice ${invoice}.`;
+      return t("tools.noInvoiceRecords", { invoice });
     }
 
     const details = invoiceData
-      .map(
-        (sale) =>
-          `Customer: ${
-            sale.customer
-          }, PurchaseDate: ${sale.purchaseDate.toISOString()}, Address: ${
-            sale.address
-          }, Item: ${sale.item}, Quantity: ${
-            sale.quantity
-          }, Price: RM ${sale.price.toLocaleString("en-US", {
+      .map((sale) =>
+        t("tools.invoiceItem", {
+          customer: sale.customer,
+          purchaseDate: sale.purchaseDate.toISOString(),
+          address: sale.address,
+          item: sale.item,
+          quantity: sale.quantity,
+          price: sale.price.toLocaleString("en-US", {
             minimumFractionDigits: 2,
             maximumFractionDigits: 2,
-          })}, Total: RM ${sale.total.toLocaleString("en-US", {
+          }),
+          total: sale.total.toLocaleString("en-US", {
             minimumFractionDigits: 2,
             maximumFractionDigits: 2,
-          })}, Payment: ${sale.paymentMethod}`
+          }),
+          paymentMethod: sale.paymentMethod,
+        })
       )
       .join("\n");
 
@@ -904,13 +990,16 @@ export const getInvoiceDetails = tool({
       0
     );
 
-    return `Invoice: ${invoice}\n${details}\nOverall Invoice Total: RM ${totalInvoiceAmount.toLocaleString(
-      "en-US",
-      {
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2,
-      }
-    )}`;
+    return [
+      t("tools.invoiceHeader", { invoice }),
+      details,
+      t("tools.invoiceTotal", {
+        total: totalInvoiceAmount.toLocaleString("en-US", {
+          minimumFractionDigits: 2,
+          maximumFractionDigits: 2,
+        }),
+      }),
+    ].join("\n");
   },
 });
 
@@ -976,12 +1065,13 @@ export const getTopAggregates = tool({
       .describe(
         "Criteria to sort the groups, ONLY these options: TOTAL_SALES, COUNT, QUANTITY"
       ),
-    startDate: z
-      .preprocess(nullToUndefined, z.string().optional().nullable())
-      .describe("Start date in ISO format (e.g., 2025-01-01)"),
-    endDate: z
-      .preprocess(nullToUndefined, z.string().optional().nullable())
-      .describe("End date in ISO format (e.g., 2025-01-31)"),
+    startDate: dateArgSchema("startDate").describe(
+      "Start date in ISO format (e.g., 2025-01-01)"
+    ),
+    endDate: dateArgSchema("endDate").describe(
+      "End date in ISO format (e.g., 2025-01-31)"
+    ),
+    dateRange: dateRangeSchema,
     limit: z
       .preprocess((arg) => {
         const val = nullToUndefined(arg);
@@ -1008,18 +1098,30 @@ export const getTopAggregates = tool({
       .preprocess(nullToUndefined, z.string().optional().nullable())
       .describe("Optionally filter the payment method (e.g., Credit Card)"),
   }),
-  execute: async ({
-    groupBy,
-    sortBy,
-    startDate,
-    endDate,
-    limit = 5,
-    region,
-    item,
-    customer,
-    invoice,
-    paymentMethod,
-  }) => {
+  execute: async (
+    {
+      groupBy,
+      sortBy,
+      startDate: startDateArg,
+      endDate: endDateArg,
+      dateRange,
+      limit = 5,
+      region,
+      item,
+      customer,
+      invoice,
+      paymentMethod,
+    },
+    options
+  ) => {
+    const { abortSignal } = options;
+    const reportProgress = getProgressReporter(options);
+    const t = getToolTranslator(options);
+    const { startDate, endDate } = resolveDateFilters({
+      startDate: startDateArg,
+      endDate: endDateArg,
+      dateRange,
+    });
     const buildStringFilter = (value?: string | null) =>
       value ? { contains: value, mode: "insensitive" } : undefined;
     // Build a filter with date and optional region (applied using case-insensitive substring match)
@@ -1067,10 +1169,14 @@ export const getTopAggregates = tool({
       // Select only required fields to optimize performance.
       if (item) {
         const scoredSales: ScoredSale[] = await retrieveRelevantSalesRecords(
-          item
+          item,
+          undefined,
+          abortSignal
         );
-        if (scoredSales.length === 0)
-          return "No sales records found for the given filters.";
+        reportProgress(
+          t("progress.vectorMatches", { count: scoredSales.length })
+        );
+        if (scoredSales.length === 0) return t("tools.noSalesRecords");
         scoredIds = scoredSales.map((sale) => sale.id);
         filter.id = { in: scoredIds };
         filter.item = buildStringFilter(item);
@@ -1086,9 +1192,16 @@ export const getTopAggregates = tool({
         });
       } catch {
         const batches = chunkArray(scoredIds, MAX_BATCH_SIZE);
-        for (const batch of batches) {
+        for (let index = 0; index < batches.length; index++) {
+          abortSignal?.throwIfAborted();
+          reportProgress(
+            t("progress.aggregatingBatch", {
+              batch: index + 1,
+              batches: batches.length,
+            })
+          );
           const partialData = await prisma.sales.findMany({
-            where: { ...filter, id: { in: batch } },
+            where: { ...filter, id: { in: batches[index] } },
             select: { item: true, quantity: true, total: true, price: true },
           });
           salesData = salesData.concat(partialData);
@@ -1106,8 +1219,10 @@ export const getTopAggregates = tool({
           take: 1000,
         });
       }
-      if (salesData.length === 0)
-        return "No sales records found for the given filters.";
+      if (salesData.length === 0) return t("tools.noSalesRecords");
+      reportProgress(
+        t("progress.aggregatingByItem", { count: salesData.length })
+      );
 
       const itemStats: Record<
         string,
@@ -1159,17 +1274,20 @@ export const getTopAggregates = tool({
 
       aggregatedItems = aggregatedItems.slice(0, limitSanitise || undefined);
       result = aggregatedItems
-        .map(
-          (item) =>
-            `Item: ${item.group}, Count: ${item.count}, Total Quantity Sold: ${
-              item.totalQuantity
-            }, Total Sales: RM ${item.totalSales.toLocaleString("en-US", {
+        .map((item) =>
+          t("tools.itemAggregate", {
+            item: item.group,
+            count: item.count,
+            quantity: item.totalQuantity,
+            total: item.totalSales.toLocaleString("en-US", {
               minimumFractionDigits: 2,
               maximumFractionDigits: 2,
-            })}, Average Price: RM ${item.averagePrice.toLocaleString("en-US", {
+            }),
+            averagePrice: item.averagePrice.toLocaleString("en-US", {
               minimumFractionDigits: 2,
               maximumFractionDigits: 2,
-            })}`
+            }),
+          })
         )
         .join("\n");
     } else {
@@ -1186,12 +1304,21 @@ export const getTopAggregates = tool({
       const groupField: Prisma.SalesScalarFieldEnum =
         fieldMapping[groupBy as Exclude<typeof groupBy, "ITEM">];
 
+      reportProgress(
+        t("progress.groupingBy", { groupBy: groupBy.toLowerCase() })
+      );
       const groups = await prisma.sales.groupBy({
         by: [groupField],
         where: filter,
         _count: { _all: true },
         _sum: { total: true, quantity: true },
       });
+      reportProgress(
+        t("progress.groups", {
+          groupBy: groupBy.toLowerCase(),
+          count: groups.length,
+        })
+      );
 
       const sortedGroups = groups.sort((a, b) => {
         if (sortBy === "COUNT") {
@@ -1204,24 +1331,31 @@ export const getTopAggregates = tool({
       });
 
       const topGroups = sortedGroups.slice(0, limitSanitise || undefined);
-      if (topGroups.length === 0)
-        return "No groups found for the given filters.";
+      if (topGroups.length === 0) return t("tools.noGroups");
 
       result = topGroups
         .map((groupData) => {
           const key = groupData[groupField];
-          return `Group (${groupBy}): ${key}, Count: ${
-            groupData._count._all
-          }, Total Sales: RM ${groupData._sum.total?.toLocaleString("en-US", {
-            minimumFractionDigits: 2,
-            maximumFractionDigits: 2,
-          })}, Total Quantity: ${groupData._sum.quantity}`;
+          return t("tools.groupAggregate", {
+            groupBy,
+            group: String(key),
+            count: groupData._count._all,
+            total: String(
+              groupData._sum.total?.toLocaleString("en-US", {
+                minimumFractionDigits: 2,
+                maximumFractionDigits: 2,
+              })
+            ),
+            quantity: String(groupData._sum.quantity),
+          });
         })
         .join("\n");
     }
 
     // If region is provided, append invoice trends (aggregated by invoice) for that region.
     if (region) {
+      abortSignal?.throwIfAborted();
+      reportProgress(t("progress.invoiceTrends", { region }));
       const invoiceGroups = await prisma.sales.groupBy({
         by: ["invoice"],
         where: filter,
@@ -1235,19 +1369,20 @@ export const getTopAggregates = tool({
       const averageInvoiceValue =
         invoiceCount > 0 ? totalInvoiceAmount / invoiceCount : 0;
       const invoiceSummary = [
-        `Invoice Trends:`,
-        `Unique Invoices: ${invoiceCount}`,
-        `Total Invoice Amount: RM ${totalInvoiceAmount.toLocaleString("en-US", {
-          minimumFractionDigits: 2,
-          maximumFractionDigits: 2,
-        })}`,
-        `Average Invoice Value: RM ${averageInvoiceValue.toLocaleString(
-          "en-US",
-          {
+        t("tools.invoiceTrends"),
+        t("tools.uniqueInvoices", { count: invoiceCount }),
+        t("tools.totalInvoiceAmount", {
+          total: totalInvoiceAmount.toLocaleString("en-US", {
             minimumFractionDigits: 2,
             maximumFractionDigits: 2,
-          }
-        )}`,
+          }),
+        }),
+        t("tools.averageInvoiceValue", {
+          average: averageInvoiceValue.toLocaleString("en-US", {
+            minimumFractionDigits: 2,
+            maximumFractionDigits: 2,
+          }),
+        }),
       ].join("\n");
       result = `${result}\n\n${invoiceSummary}`;
     }
@@ -1261,7 +1396,9 @@ export const getSalesMetadata = tool({
   parameters: z.object({
     queryType: z.enum(["paymentMethods", "regions", "dateRange"]),
   }),
-  execute: async ({ queryType }) => {
+  execute: async ({ queryType }, options) => {
+    const t = getToolTranslator(options);
+
     if (queryType === "paymentMethods") {
       const results = await prisma.sales.findMany({
         select: { paymentMethod: true },
@@ -1269,8 +1406,8 @@ export const getSalesMetadata = tool({
       });
       const methods = results.map((r) => r.paymentMethod);
       return methods.length
-        ? `Available payment methods: ${methods.join(", ")}`
-        : "No payment methods found.";
+        ? t("tools.paymentMethods", { paymentMethods: methods.join(", ") })
+        : t("tools.noPaymentMethods");
     }
 
     if (queryType === "regions") {
@@ -1280,22 +1417,22 @@ export const getSalesMetadata = tool({
       });
       const regions = results.map((r) => r.address);
       return regions.length
-        ? `Available regions: ${regions.join(", ")}`
-        : "No regions found.";
+        ? t("tools.regions", { regions: regions.join(", ") })
+        : t("tools.noRegions");
     }
 
     if (queryType === "dateRange") {
-      const result = await prisma.sales.aggregate({
-        _min: { purchaseDate: true },
-        _max: { purchaseDate: true },
-      });
-      if (!result._min.purchaseDate || !result._max.purchaseDate) {
-        return "No date range found.";
+      const dateRange = await getSalesDateRange();
+      if (!dateRange) {
+        return t("tools.noDateRange");
       }
-      return `Date range: From ${result._min.purchaseDate.toISOString()} to ${result._max.purchaseDate.toISOString()}`;
+      return t("tools.dateRange", {
+        from: dateRange.from.toISOString(),
+        to: dateRange.to.toISOString(),
+      });
     }
 
-    return "Unsupported query type.";
+    return t("tools.unsupportedQueryType");
   },
 });
 
@@ -1303,12 +1440,13 @@ export const testSearchAggregates = tool({
   description:
     "Test search query based on provided filters. Returns the count of matching records and a sample of records. Confirm with the user if the results meet expectations before proceeding with full aggregation.",
   parameters: z.object({
-    startDate: z
-      .preprocess(nullToUndefined, z.string().optional().nullable())
-      .describe("Start date in ISO format (e.g., 2025-01-01)"),
-    endDate: z
-      .preprocess(nullToUndefined, z.string().optional().nullable())
-      .describe("End date in ISO format (e.g., 2025-01-31)"),
+    startDate: dateArgSchema("startDate").describe(
+      "Start date in ISO format (e.g., 2025-01-01)"
+    ),
+    endDate: dateArgSchema("endDate").describe(
+      "End date in ISO format (e.g., 2025-01-31)"
+    ),
+    dateRange: dateRangeSchema,
     region: z
       .preprocess(nullToUndefined, z.string().optional().nullable())
       .describe("Optional region filter (e.g., Johor)"),
@@ -1326,14 +1464,20 @@ export const testSearchAggregates = tool({
       .describe("Optional payment method filter (e.g., Credit Card)"),
   }),
   execute: async ({
-    startDate,
-    endDate,
+    startDate: startDateArg,
+    endDate: endDateArg,
+    dateRange,
     region,
     item,
     customer,
     invoice,
     paymentMethod,
   }) => {
+    const { startDate, endDate } = resolveDateFilters({
+      startDate: startDateArg,
+      endDate: endDateArg,
+      dateRange,
+    });
     function buildFuzzyClause(
       field: string,
       value?: string | null
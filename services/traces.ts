@@ -0,0 +1,80 @@
+"use server";
+
+import { requireAdmin } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import {
+  isFileTraceExporter,
+  readSpansFromFile,
+  TraceSpanRecord,
+} from "@/lib/trace-exporter";
+
+/**
+ * Lists the recorded chat requests, newest first, optionally for one chat.
+ */
+export async function getChatRequestTraces({
+  chatId,
+  take = 50,
+}: {
+  chatId?: string;
+  take?: number;
+}): Promise<TraceSpanRecord[]> {
+  await requireAdmin();
+
+  try {
+    if (isFileTraceExporter()) {
+      const spans = await readSpansFromFile();
+
+      return spans
+        .filter(
+          (span) =>
+            span.name === "chat.request" &&
+            span.parentSpanId === null &&
+            (!chatId || span.chatId === chatId)
+        )
+        .sort((a, b) => b.startTime.getTime() - a.startTime.getTime())
+        .slice(0, take);
+    }
+
+    return await prisma.traceSpan.findMany({
+      where: {
+        name: "chat.request",
+        parentSpanId: null,
+        ...(chatId ? { chatId } : {}),
+      },
+      orderBy: { startTime: "desc" },
+      take,
+    });
+  } catch (error) {
+    console.error("Failed to get chat request traces", error);
+    throw error;
+  }
+}
+
+/**
+ * Returns every span of a trace in the order they started.
+ */
+export async function getTraceSpans({
+  traceId,
+}: {
+  traceId: string;
+}): Promise<TraceSpanRecord[]> {
+  await requireAdmin();
+
+  try {
+    if (isFileTraceExporter()) {
+      const spans = await readSpansFromFile();
+
+      return spans
+        .filter((span) => span.traceId === traceId)
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    }
+
+    return await prisma.traceSpan.findMany({
+      where: { traceId },
+      orderBy: { startTime: "asc" },
+    });
+  } catch (error) {
+    console.error("Failed to get trace spans", error);
+    throw error;
+  }
+}
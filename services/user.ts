@@ -0,0 +1,23 @@
+"use server";
+
+import { clerkClient } from "@clerk/nextjs/server";
+
+export async function getUserDisplayName({
+  userId,
+}: {
+  userId: string;
+}): Promise<string> {
+  try {
+    const user = await (await clerkClient()).users.getUser(userId.trim());
+
+    return (
+      user.fullName ||
+      user.username ||
+      user.primaryEmailAddress?.emailAddress ||
+      "Unknown user"
+    );
+  } catch (error) {
+    console.error("Failed to get user from Clerk", error);
+    return "Unknown user";
+  }
+}